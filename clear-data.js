@@ -10,6 +10,44 @@ try {
   const oddsResult = db.prepare('DELETE FROM odds_history').run();
   console.log(`Deleted ${oddsResult.changes} records from odds_history`);
 
+  // Delete live stats snapshots (reference the odds timeline)
+  const liveStatsResult = db.prepare('DELETE FROM live_stats_snapshots').run();
+  console.log(`Deleted ${liveStatsResult.changes} records from live_stats_snapshots`);
+
+  // Delete odds timeline
+  const snapshotsResult = db.prepare('DELETE FROM odds_snapshots').run();
+  console.log(`Deleted ${snapshotsResult.changes} records from odds_snapshots`);
+
+  // Delete market odds and market rule alerts
+  const marketOddsResult = db.prepare('DELETE FROM market_odds').run();
+  console.log(`Deleted ${marketOddsResult.changes} records from market_odds`);
+  const marketAlertsResult = db.prepare('DELETE FROM market_alerts').run();
+  console.log(`Deleted ${marketAlertsResult.changes} records from market_alerts`);
+
+  // Delete per-bookmaker odds
+  const bookmakerResult = db.prepare('DELETE FROM bookmaker_odds').run();
+  console.log(`Deleted ${bookmakerResult.changes} records from bookmaker_odds`);
+
+  // Delete line movement alerts
+  const movementsResult = db.prepare('DELETE FROM line_movement_alerts').run();
+  console.log(`Deleted ${movementsResult.changes} records from line_movement_alerts`);
+
+  // Delete value alerts
+  const valueResult = db.prepare('DELETE FROM value_alerts').run();
+  console.log(`Deleted ${valueResult.changes} records from value_alerts`);
+
+  // Delete per-line alert state
+  const lineAlertsResult = db.prepare('DELETE FROM match_line_alerts').run();
+  console.log(`Deleted ${lineAlertsResult.changes} records from match_line_alerts`);
+
+  // Delete paper trading ledger
+  const paperResult = db.prepare('DELETE FROM paper_bets').run();
+  console.log(`Deleted ${paperResult.changes} records from paper_bets`);
+
+  // Delete streaks (derived from finished matches)
+  const streaksResult = db.prepare('DELETE FROM streaks').run();
+  console.log(`Deleted ${streaksResult.changes} records from streaks`);
+
   // Delete matches
   const matchesResult = db.prepare('DELETE FROM matches').run();
   console.log(`Deleted ${matchesResult.changes} records from matches`);
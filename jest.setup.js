@@ -0,0 +1,2 @@
+// Tests run against a fresh in-memory database per test file
+process.env.DATABASE_PATH = ':memory:';
@@ -2,6 +2,8 @@ import Database, { Database as DatabaseType } from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { config } from './index';
+import { parseEsoccerTeam } from '../utils/player';
+import { UNKNOWN_TEAM, formatTeamName, teamNameKey } from '../utils/team';
 
 // Ensure data directory exists
 const dbDir = path.dirname(config.database.path);
@@ -76,6 +78,20 @@ export function initializeDatabase(): void {
     // Migration may fail if column doesn't exist yet
   }
 
+  // Add target_line / touched_target columns - replace touched_15, which only meant
+  // "touched whatever the league target was at the time"
+  try {
+    db.exec(`ALTER TABLE matches ADD COLUMN target_line REAL`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    db.exec(`ALTER TABLE matches ADD COLUMN touched_target INTEGER DEFAULT 0`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
   // Create odds_history table
   db.exec(`
     CREATE TABLE IF NOT EXISTS odds_history (
@@ -90,6 +106,530 @@ export function initializeDatabase(): void {
     )
   `);
 
+  // Add match clock columns - the minute/second a goal line was seen
+  try {
+    db.exec(`ALTER TABLE odds_history ADD COLUMN match_minute INTEGER`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    db.exec(`ALTER TABLE odds_history ADD COLUMN match_second INTEGER`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    db.exec(`ALTER TABLE matches ADD COLUMN current_minute INTEGER`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Add sport column - every match tracked before multi-sport support is soccer
+  try {
+    db.exec(`ALTER TABLE matches ADD COLUMN sport_id INTEGER DEFAULT 1`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Create odds_snapshots table - append-only per-poll timeline, a row is written whenever
+  // the line, either price or the score changed since the previous poll
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS odds_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      handicap REAL,
+      over_odds REAL,
+      under_odds REAL,
+      score TEXT,
+      match_minute INTEGER,
+      match_second INTEGER,
+      source TEXT,
+      recorded_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id)
+    )
+  `);
+
+  // Create bookmaker_odds table - every bookmaker's goal line from the odds summary
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS bookmaker_odds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      bookmaker TEXT NOT NULL,
+      handicap REAL NOT NULL,
+      over_odds REAL,
+      under_odds REAL,
+      score TEXT,
+      match_minute INTEGER,
+      recorded_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id)
+    )
+  `);
+
+  // Create market_odds table - market-agnostic odds, one row per selection of each tracked market reading
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS market_odds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      market TEXT NOT NULL,
+      bookmaker TEXT NOT NULL,
+      selection TEXT NOT NULL,
+      handicap REAL,
+      odds REAL,
+      score TEXT,
+      match_minute INTEGER,
+      recorded_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id)
+    )
+  `);
+
+  // Create market_alerts table - market rule firings, once per match and rule
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS market_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      rule_id INTEGER NOT NULL,
+      market TEXT NOT NULL,
+      selection TEXT,
+      handicap REAL,
+      odds REAL,
+      score TEXT,
+      match_minute INTEGER,
+      alert_sent INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id),
+      UNIQUE(match_id, rule_id)
+    )
+  `);
+
+  // Create live_stats_snapshots table - periodic in-play stats, linked to the odds timeline
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS live_stats_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      odds_snapshot_id INTEGER,
+      score TEXT,
+      match_minute INTEGER,
+      home_attacks INTEGER,
+      away_attacks INTEGER,
+      home_dangerous_attacks INTEGER,
+      away_dangerous_attacks INTEGER,
+      home_shots_on INTEGER,
+      away_shots_on INTEGER,
+      home_shots_off INTEGER,
+      away_shots_off INTEGER,
+      home_possession INTEGER,
+      away_possession INTEGER,
+      home_corners INTEGER,
+      away_corners INTEGER,
+      recorded_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id),
+      FOREIGN KEY (odds_snapshot_id) REFERENCES odds_snapshots(id)
+    )
+  `);
+
+  // Create line_movement_alerts table - sharp goal line moves that were alerted
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS line_movement_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      type TEXT NOT NULL CHECK(type IN ('drop', 'rise', 'against_score')),
+      from_line REAL NOT NULL,
+      to_line REAL NOT NULL,
+      score_before TEXT,
+      score_after TEXT,
+      minute_before INTEGER,
+      minute_after INTEGER,
+      window_seconds INTEGER,
+      alert_sent INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id)
+    )
+  `);
+
+  // Create value_alerts table - one per match, goal line and side
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS value_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      goal_line REAL NOT NULL,
+      side TEXT NOT NULL CHECK(side IN ('over', 'under')),
+      odds REAL NOT NULL,
+      model_probability REAL NOT NULL,
+      implied_probability REAL NOT NULL,
+      edge REAL NOT NULL,
+      fair_odds REAL NOT NULL,
+      score TEXT,
+      match_minute INTEGER,
+      alert_sent INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (match_id) REFERENCES matches(match_id),
+      UNIQUE(match_id, goal_line, side)
+    )
+  `);
+
+  // Create leagues table - the tracked leagues, loaded into the config league maps at startup
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS leagues (
+      league_id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      sport_id INTEGER NOT NULL DEFAULT 1,
+      name_pattern TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Target line last applied from the config file - reloads only move the league's rule when it changes
+  try {
+    db.exec(`ALTER TABLE leagues ADD COLUMN config_target_line REAL`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Seed leagues from the default league config on first start
+  const leagueCount = (db.prepare('SELECT COUNT(*) as count FROM leagues').get() as any).count;
+  if (leagueCount === 0) {
+    const seedStmt = db.prepare(`
+      INSERT INTO leagues (league_id, name, sport_id, name_pattern) VALUES (?, ?, ?, ?)
+    `);
+    for (const leagueId of config.targetLeagues) {
+      const pattern = config.bet365LeaguePatterns.find((p) => p.leagueId === leagueId);
+      seedStmt.run(
+        leagueId,
+        config.leagueNames[leagueId] || pattern?.name || `League ${leagueId}`,
+        config.getLeagueSport(leagueId),
+        pattern?.pattern.source ?? null
+      );
+    }
+    console.log(`Seeded ${config.targetLeagues.length} tracked leagues`);
+  }
+
+  // Create discovered_leagues table - every league seen in the inplay feed
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS discovered_leagues (
+      league_id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      sport_id INTEGER,
+      first_seen TEXT DEFAULT (datetime('now')),
+      last_seen TEXT DEFAULT (datetime('now')),
+      match_count INTEGER DEFAULT 0
+    )
+  `);
+
+  // Create discovered_events table - inplay events already counted towards a discovered league
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS discovered_events (
+      event_id TEXT PRIMARY KEY,
+      league_id INTEGER NOT NULL,
+      first_seen TEXT DEFAULT (datetime('now'))
+    )
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_discovered_events_first_seen ON discovered_events(first_seen)`);
+
+  // Create detection_rules table - evaluated on every poll, so edits apply without a restart
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS detection_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      league_id INTEGER,
+      goal_line REAL,
+      goal_line_min REAL,
+      goal_line_max REAL,
+      minute_min INTEGER,
+      minute_max INTEGER,
+      score TEXT,
+      total_goals_min INTEGER,
+      total_goals_max INTEGER,
+      over_odds_min REAL,
+      over_odds_max REAL,
+      under_odds_min REAL,
+      under_odds_max REAL,
+      enabled INTEGER DEFAULT 1,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Add market columns - rules can target any odds summary market, existing rules stay on the goal line
+  for (const column of [
+    `market TEXT NOT NULL DEFAULT '1_3'`,
+    'selection TEXT',
+    'odds_min REAL',
+    'odds_max REAL',
+  ]) {
+    try {
+      db.exec(`ALTER TABLE detection_rules ADD COLUMN ${column}`);
+    } catch (e) {
+      // Column already exists, ignore
+    }
+  }
+
+  // Seed detection rules from the default target goal lines on first start
+  const ruleCount = (db.prepare('SELECT COUNT(*) as count FROM detection_rules').get() as any).count;
+  if (ruleCount === 0) {
+    const seedStmt = db.prepare(`
+      INSERT INTO detection_rules (name, league_id, goal_line, market) VALUES (?, ?, ?, ?)
+    `);
+    for (const [leagueId, goalLine] of Object.entries(config.targetGoalLines)) {
+      const id = parseInt(leagueId, 10);
+      const leagueName = config.leagueNames[id] || `League ${leagueId}`;
+      seedStmt.run(`${leagueName} ${goalLine}`, id, goalLine, config.getTotalMarket(id));
+    }
+    console.log(`Seeded ${Object.keys(config.targetGoalLines).length} default detection rules`);
+  }
+
+  // Create match_line_alerts table - independent alert/settlement state per match and goal line
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS match_line_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      goal_line REAL NOT NULL,
+      rule_id INTEGER,
+      touched_at TEXT DEFAULT (datetime('now')),
+      score_at_touch TEXT,
+      over_odds REAL,
+      under_odds REAL,
+      alert_sent INTEGER DEFAULT 0,
+      result TEXT CHECK(result IN ('over', 'under', 'push')),
+      settled_at TEXT,
+      FOREIGN KEY (match_id) REFERENCES matches(match_id),
+      UNIQUE(match_id, goal_line)
+    )
+  `);
+
+  // Add price gating columns - a touched line stays 'price_rejected' until its price comes into range
+  for (const column of [
+    `status TEXT DEFAULT 'touched'`,
+    'alert_over_odds REAL',
+    'alert_under_odds REAL',
+    'alerted_at TEXT',
+    'over_outcome TEXT',
+    'under_outcome TEXT',
+  ]) {
+    try {
+      db.exec(`ALTER TABLE match_line_alerts ADD COLUMN ${column}`);
+    } catch (e) {
+      // Column already exists, ignore
+    }
+  }
+
+  // Migrate existing data: record the league's own target line and re-derive touched_target from it.
+  // Backfilled rows had touched_15 set for 1.5 regardless of league, so it is only trusted for 1.5 targets.
+  try {
+    const leagueIds = db.prepare(
+      'SELECT DISTINCT league_id FROM matches WHERE target_line IS NULL'
+    ).all() as Array<{ league_id: number }>;
+
+    const ruleLineStmt = db.prepare(`
+      SELECT goal_line FROM detection_rules
+      WHERE league_id = ? AND goal_line IS NOT NULL AND enabled = 1
+      ORDER BY id ASC LIMIT 1
+    `);
+    const migrateStmt = db.prepare(`
+      UPDATE matches
+      SET target_line = @targetLine,
+          touched_target = CASE
+            WHEN alert_sent = 1 THEN 1
+            WHEN detected_odds = @targetLine THEN 1
+            WHEN EXISTS (SELECT 1 FROM match_line_alerts a WHERE a.match_id = matches.match_id AND a.goal_line = @targetLine) THEN 1
+            WHEN EXISTS (SELECT 1 FROM odds_history oh WHERE oh.match_id = matches.match_id AND oh.handicap = @targetLine) THEN 1
+            WHEN @targetLine = 1.5 AND touched_15 = 1 THEN 1
+            ELSE 0
+          END
+      WHERE league_id = @leagueId AND target_line IS NULL
+    `);
+
+    for (const { league_id } of leagueIds) {
+      const ruleLine = ruleLineStmt.get(league_id) as { goal_line: number } | undefined;
+      const targetLine = ruleLine?.goal_line ?? config.getTargetGoalLine(league_id);
+      const result = migrateStmt.run({ targetLine, leagueId: league_id });
+      console.log(`Migrated target_line ${targetLine} for ${result.changes} matches in league ${league_id}`);
+    }
+  } catch (e) {
+    console.error('Failed to migrate target_line/touched_target:', e);
+  }
+
+  // Create paper_bets table - virtual bet ledger, kept when old matches are rolled out of the DB
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS paper_bets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      match_id TEXT NOT NULL,
+      league_id INTEGER NOT NULL,
+      home_team TEXT NOT NULL,
+      away_team TEXT NOT NULL,
+      rule_id INTEGER,
+      strategy TEXT NOT NULL,
+      side TEXT NOT NULL CHECK(side IN ('over', 'under')),
+      goal_line REAL NOT NULL,
+      odds REAL NOT NULL,
+      stake REAL NOT NULL,
+      bankroll_before REAL NOT NULL,
+      status TEXT DEFAULT 'open' CHECK(status IN ('open', 'settled')),
+      outcome TEXT,
+      payout REAL,
+      profit REAL,
+      placed_at TEXT DEFAULT (datetime('now')),
+      settled_at TEXT,
+      UNIQUE(match_id, goal_line, side, strategy)
+    )
+  `);
+
+  // Create players table - esoccer player handles parsed from team names like "Arsenal (Boulevard)"
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS players (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+      first_seen TEXT DEFAULT (datetime('now')),
+      last_seen TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  for (const column of ['home_player_id INTEGER', 'away_player_id INTEGER']) {
+    try {
+      db.exec(`ALTER TABLE matches ADD COLUMN ${column}`);
+    } catch (e) {
+      // Column already exists, ignore
+    }
+  }
+
+  // Link players to matches tracked before player parsing existed
+  try {
+    const unlinked = db.prepare(`
+      SELECT match_id, home_team, away_team, detection_time FROM matches
+      WHERE home_player_id IS NULL OR away_player_id IS NULL
+      ORDER BY detection_time ASC
+    `).all() as Array<{ match_id: string; home_team: string; away_team: string; detection_time: string }>;
+
+    const upsertPlayerStmt = db.prepare(`
+      INSERT INTO players (name, first_seen, last_seen) VALUES (?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET last_seen = MAX(last_seen, excluded.last_seen)
+    `);
+    const playerIdStmt = db.prepare('SELECT id FROM players WHERE name = ?');
+    const linkStmt = db.prepare(`
+      UPDATE matches SET home_player_id = ?, away_player_id = ? WHERE match_id = ?
+    `);
+
+    const playerId = (teamName: string, seenAt: string): number | null => {
+      const { player } = parseEsoccerTeam(teamName);
+      if (!player) return null;
+      upsertPlayerStmt.run(player, seenAt, seenAt);
+      return (playerIdStmt.get(player) as { id: number }).id;
+    };
+
+    let linked = 0;
+    db.transaction(() => {
+      for (const match of unlinked) {
+        const homeId = playerId(match.home_team, match.detection_time);
+        const awayId = playerId(match.away_team, match.detection_time);
+        if (homeId !== null || awayId !== null) {
+          linkStmt.run(homeId, awayId, match.match_id);
+          linked++;
+        }
+      }
+    })();
+
+    if (linked > 0) {
+      console.log(`Linked players for ${linked} existing matches`);
+    }
+  } catch (e) {
+    console.error('Failed to link players to existing matches:', e);
+  }
+
+  // Create teams table - one row per team however the feeds spell it, with the BetsAPI team ID when known
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS teams (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      name_key TEXT UNIQUE NOT NULL,
+      betsapi_id TEXT UNIQUE,
+      first_seen TEXT DEFAULT (datetime('now')),
+      last_seen TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Create team_aliases table - other spellings of a team, keyed like teams.name_key
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS team_aliases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alias TEXT NOT NULL,
+      alias_key TEXT UNIQUE NOT NULL,
+      team_id INTEGER NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )
+  `);
+
+  for (const column of ['home_team_id INTEGER', 'away_team_id INTEGER']) {
+    try {
+      db.exec(`ALTER TABLE matches ADD COLUMN ${column}`);
+    } catch (e) {
+      // Column already exists, ignore
+    }
+  }
+
+  // Link teams to matches tracked before team resolution existed
+  try {
+    const unlinked = db.prepare(`
+      SELECT match_id, home_team, away_team, detection_time FROM matches
+      WHERE home_team_id IS NULL OR away_team_id IS NULL
+      ORDER BY detection_time ASC
+    `).all() as Array<{ match_id: string; home_team: string; away_team: string; detection_time: string }>;
+
+    const upsertTeamStmt = db.prepare(`
+      INSERT INTO teams (name, name_key, first_seen, last_seen) VALUES (?, ?, ?, ?)
+      ON CONFLICT(name_key) DO UPDATE SET last_seen = MAX(last_seen, excluded.last_seen)
+    `);
+    const aliasTeamStmt = db.prepare('SELECT team_id as id FROM team_aliases WHERE alias_key = ?');
+    const teamIdStmt = db.prepare('SELECT id FROM teams WHERE name_key = ?');
+    const linkStmt = db.prepare(`
+      UPDATE matches SET home_team_id = ?, away_team_id = ? WHERE match_id = ?
+    `);
+
+    const teamId = (teamName: string, seenAt: string): number | null => {
+      const key = teamNameKey(teamName);
+      if (!key || teamName === UNKNOWN_TEAM) return null;
+      const alias = aliasTeamStmt.get(key) as { id: number } | undefined;
+      if (alias) return alias.id;
+      upsertTeamStmt.run(formatTeamName(teamName), key, seenAt, seenAt);
+      return (teamIdStmt.get(key) as { id: number }).id;
+    };
+
+    let linked = 0;
+    db.transaction(() => {
+      for (const match of unlinked) {
+        const homeId = teamId(match.home_team, match.detection_time);
+        const awayId = teamId(match.away_team, match.detection_time);
+        if (homeId !== null || awayId !== null) {
+          linkStmt.run(homeId, awayId, match.match_id);
+          linked++;
+        }
+      }
+    })();
+
+    if (linked > 0) {
+      console.log(`Linked teams for ${linked} existing matches`);
+    }
+  } catch (e) {
+    console.error('Failed to link teams to existing matches:', e);
+  }
+
+  // Create streaks table - running over/under and touch streaks per league and per player
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS streaks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL CHECK(scope IN ('league', 'player')),
+      scope_id INTEGER NOT NULL,
+      kind TEXT NOT NULL CHECK(kind IN ('total', 'touch')),
+      value TEXT NOT NULL CHECK(value IN ('over', 'under', 'touched', 'untouched')),
+      length INTEGER NOT NULL DEFAULT 0,
+      target_line REAL,
+      last_match_id TEXT,
+      alerted_length INTEGER DEFAULT 0,
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(scope, scope_id, kind)
+    )
+  `);
+
   // Create api_logs table
   db.exec(`
     CREATE TABLE IF NOT EXISTS api_logs (
@@ -110,6 +650,22 @@ export function initializeDatabase(): void {
     CREATE INDEX IF NOT EXISTS idx_matches_detection_time ON matches(detection_time);
     CREATE INDEX IF NOT EXISTS idx_odds_history_match_id ON odds_history(match_id);
     CREATE INDEX IF NOT EXISTS idx_odds_history_recorded_at ON odds_history(recorded_at);
+    CREATE INDEX IF NOT EXISTS idx_odds_snapshots_match_id ON odds_snapshots(match_id, id);
+    CREATE INDEX IF NOT EXISTS idx_bookmaker_odds_match_id ON bookmaker_odds(match_id, bookmaker, id);
+    CREATE INDEX IF NOT EXISTS idx_market_odds_match_id ON market_odds(match_id, market, id);
+    CREATE INDEX IF NOT EXISTS idx_market_alerts_match_id ON market_alerts(match_id);
+    CREATE INDEX IF NOT EXISTS idx_live_stats_snapshots_match_id ON live_stats_snapshots(match_id, id);
+    CREATE INDEX IF NOT EXISTS idx_line_movement_alerts_match_id ON line_movement_alerts(match_id);
+    CREATE INDEX IF NOT EXISTS idx_value_alerts_match_id ON value_alerts(match_id);
+    CREATE INDEX IF NOT EXISTS idx_detection_rules_league_id ON detection_rules(league_id);
+    CREATE INDEX IF NOT EXISTS idx_match_line_alerts_match_id ON match_line_alerts(match_id);
+    CREATE INDEX IF NOT EXISTS idx_paper_bets_match_id ON paper_bets(match_id);
+    CREATE INDEX IF NOT EXISTS idx_paper_bets_strategy ON paper_bets(strategy, status);
+    CREATE INDEX IF NOT EXISTS idx_matches_home_player_id ON matches(home_player_id);
+    CREATE INDEX IF NOT EXISTS idx_matches_away_player_id ON matches(away_player_id);
+    CREATE INDEX IF NOT EXISTS idx_matches_home_team_id ON matches(home_team_id);
+    CREATE INDEX IF NOT EXISTS idx_matches_away_team_id ON matches(away_team_id);
+    CREATE INDEX IF NOT EXISTS idx_team_aliases_team_id ON team_aliases(team_id);
     CREATE INDEX IF NOT EXISTS idx_api_logs_endpoint ON api_logs(endpoint);
     CREATE INDEX IF NOT EXISTS idx_api_logs_created_at ON api_logs(created_at);
   `);
@@ -0,0 +1,63 @@
+import { parseConfigFile } from './file';
+
+describe('parseConfigFile', () => {
+  const parse = (settings: any) => parseConfigFile(JSON.stringify(settings));
+
+  it('accepts a valid config file', () => {
+    const result = parse({
+      pollingInterval: 15000,
+      statsTimezone: 'Europe/London',
+      leagues: [{ leagueId: 23114, name: 'GT League', targetLine: 2.5, matchDuration: 12 }],
+      alerts: {
+        lineMovement: { byLeague: { 37298: { dropThreshold: 0.75, riseThreshold: null } } },
+        headToHead: { lastResults: 0 },
+      },
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.settings?.pollingInterval).toBe(15000);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(parseConfigFile('{ pollingInterval: 1000 }').errors[0]).toMatch(/^Invalid JSON: /);
+  });
+
+  it('rejects unknown keys at any depth', () => {
+    expect(parse({ pollingIntervall: 15000 }).errors).toEqual(['pollingIntervall is not a known setting']);
+    expect(parse({ alerts: { model: { edges: 0.1 } } }).errors).toEqual(['alerts.model.edges is not a known setting']);
+    expect(parse({ alerts: { oddsRange: { byLeague: { gt: {} } } } }).errors)
+      .toEqual(['alerts.oddsRange.byLeague.gt: keys must be league IDs']);
+  });
+
+  it('rejects wrong types', () => {
+    const { settings, errors } = parse({
+      pollingInterval: '30000',
+      leagues: {},
+      alerts: { streaks: { alerts: 'yes' }, oddsRange: { default: { overMin: null, overMax: 'high' } } },
+    });
+
+    expect(settings).toBeNull();
+    expect(errors).toEqual([
+      'pollingInterval must be an integer',
+      'leagues must be an array',
+      'alerts.streaks.alerts must be true or false',
+      'alerts.oddsRange.default.overMax must be a number or null',
+    ]);
+  });
+
+  it('rejects out of range and fractional integers', () => {
+    expect(parse({ pollingInterval: 500 }).errors).toEqual(['pollingInterval must be at least 1000']);
+    expect(parse({ maxMatches: 10.5 }).errors).toEqual(['maxMatches must be an integer']);
+    expect(parse({ alerts: { headToHead: { lastResults: -1 } } }).errors).toEqual(['alerts.headToHead.lastResults must be at least 0']);
+  });
+
+  it('rejects an unknown timezone', () => {
+    expect(parse({ statsTimezone: 'Europe/Lodnon' }).errors).toEqual(['statsTimezone must be a timezone name, e.g. Europe/London']);
+  });
+
+  it('requires league IDs and names, listed once', () => {
+    expect(parse({ leagues: [{ name: 'GT League' }] }).errors).toEqual(['leagues[0].leagueId is required']);
+    expect(parse({ leagues: [{ leagueId: 1, name: 'A' }, { leagueId: 1, name: 'B' }] }).errors)
+      .toEqual(['leagues[1].leagueId 1 is listed twice']);
+  });
+});
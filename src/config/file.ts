@@ -0,0 +1,227 @@
+import { LineMovementSettings, OddsRange } from './index';
+import { LeagueInput } from '../models/types';
+import { isValidTimeZone } from '../utils/time';
+
+export interface ConfigFileLeague extends LeagueInput {
+  matchDuration?: number;
+}
+
+// Shape of the external config file - every key is optional and falls back to the environment settings
+export interface ConfigFileSettings {
+  pollingInterval?: number;
+  statsTimezone?: string;
+  maxMatches?: number;
+  leagues?: ConfigFileLeague[];
+  alerts?: {
+    lineMovement?: {
+      default?: Partial<LineMovementSettings>;
+      byLeague?: Record<string, Partial<LineMovementSettings>>;
+    };
+    oddsRange?: {
+      default?: Partial<OddsRange>;
+      byLeague?: Record<string, Partial<OddsRange>>;
+    };
+    model?: {
+      valueAlerts?: boolean;
+      edge?: number;
+      leagueMinSample?: number;
+      playerMinSample?: number;
+    };
+    streaks?: {
+      alerts?: boolean;
+      leagueLength?: number;
+      playerLength?: number;
+    };
+    headToHead?: {
+      lastResults?: number;
+    };
+  };
+}
+
+type Schema =
+  | { type: 'integer' | 'number'; min?: number; nullable?: boolean }
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'timeZone' } // IANA timezone name
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] }
+  | { type: 'array'; items: Schema }
+  | { type: 'leagueMap'; values: Schema }; // Object keyed by league ID
+
+const integer = (min: number): Schema => ({ type: 'integer', min });
+const number = (min: number, nullable = false): Schema => ({ type: 'number', min, nullable });
+const boolean: Schema = { type: 'boolean' };
+const string: Schema = { type: 'string' };
+const timeZone: Schema = { type: 'timeZone' };
+
+const lineMovementSchema: Schema = {
+  type: 'object',
+  properties: {
+    enabled: boolean,
+    dropThreshold: number(0),
+    riseThreshold: number(0, true),
+    windowPolls: integer(1),
+    againstScore: boolean,
+  },
+};
+
+const oddsRangeSchema: Schema = {
+  type: 'object',
+  properties: {
+    overMin: number(1, true),
+    overMax: number(1, true),
+    underMin: number(1, true),
+    underMax: number(1, true),
+  },
+};
+
+const CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    pollingInterval: integer(1000),
+    statsTimezone: timeZone,
+    maxMatches: integer(1),
+    leagues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          leagueId: integer(1),
+          name: string,
+          sportId: integer(1),
+          targetLine: number(0),
+          namePattern: string,
+          matchDuration: integer(1),
+        },
+        required: ['leagueId', 'name'],
+      },
+    },
+    alerts: {
+      type: 'object',
+      properties: {
+        lineMovement: {
+          type: 'object',
+          properties: {
+            default: lineMovementSchema,
+            byLeague: { type: 'leagueMap', values: lineMovementSchema },
+          },
+        },
+        oddsRange: {
+          type: 'object',
+          properties: {
+            default: oddsRangeSchema,
+            byLeague: { type: 'leagueMap', values: oddsRangeSchema },
+          },
+        },
+        model: {
+          type: 'object',
+          properties: {
+            valueAlerts: boolean,
+            edge: number(0),
+            leagueMinSample: integer(1),
+            playerMinSample: integer(1),
+          },
+        },
+        streaks: {
+          type: 'object',
+          properties: {
+            alerts: boolean,
+            leagueLength: integer(0),
+            playerLength: integer(0),
+          },
+        },
+        headToHead: {
+          type: 'object',
+          properties: {
+            lastResults: integer(0),
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Check a value against a schema, collecting one message per problem with the path it was found at
+ */
+function check(value: any, schema: Schema, path: string, errors: string[]): void {
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      if (value === null && schema.nullable) return;
+      const valid = typeof value === 'number' && isFinite(value) && (schema.type === 'number' || Number.isInteger(value));
+      if (!valid) {
+        errors.push(`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}${schema.nullable ? ' or null' : ''}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        errors.push(`${path} must be at least ${schema.min}`);
+      }
+      return;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path} must be true or false`);
+      return;
+    case 'string':
+      if (typeof value !== 'string' || !value.trim()) errors.push(`${path} must be a non-empty string`);
+      return;
+    case 'timeZone':
+      if (typeof value !== 'string' || !isValidTimeZone(value)) errors.push(`${path} must be a timezone name, e.g. Europe/London`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        return;
+      }
+      value.forEach((item, index) => check(item, schema.items, `${path}[${index}]`, errors));
+      return;
+    case 'leagueMap':
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path || 'Config file'} must be an object`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const itemPath = path ? `${path}.${key}` : key;
+        if (schema.type === 'leagueMap') {
+          if (!/^[1-9]\d*$/.test(key)) {
+            errors.push(`${itemPath}: keys must be league IDs`);
+          } else {
+            check(item, schema.values, itemPath, errors);
+          }
+        } else if (!schema.properties[key]) {
+          errors.push(`${itemPath} is not a known setting`);
+        } else {
+          check(item, schema.properties[key], itemPath, errors);
+        }
+      }
+      if (schema.type === 'object') {
+        for (const key of schema.required ?? []) {
+          if (value[key] === undefined) errors.push(`${path ? `${path}.${key}` : key} is required`);
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Parse and validate the contents of a config file, returns the settings or the list of problems
+ */
+export function parseConfigFile(contents: string): { settings: ConfigFileSettings | null; errors: string[] } {
+  let raw: any;
+  try {
+    raw = JSON.parse(contents);
+  } catch (error: any) {
+    return { settings: null, errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  const errors: string[] = [];
+  check(raw, CONFIG_SCHEMA, '', errors);
+  if (errors.length > 0) return { settings: null, errors };
+
+  const seen = new Set<number>();
+  (raw as ConfigFileSettings).leagues?.forEach((league, index) => {
+    if (seen.has(league.leagueId)) errors.push(`leagues[${index}].leagueId ${league.leagueId} is listed twice`);
+    seen.add(league.leagueId);
+  });
+
+  return errors.length > 0 ? { settings: null, errors } : { settings: raw, errors };
+}
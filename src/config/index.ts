@@ -1,8 +1,70 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { isValidTimeZone } from '../utils/time';
 
 dotenv.config();
 
+export interface LineMovementSettings {
+  enabled: boolean;
+  dropThreshold: number;
+  riseThreshold: number | null;
+  windowPolls: number;
+  againstScore: boolean;
+}
+
+export interface RateLimitSettings {
+  requestsPerSecond: number;  // 0 = no per-second limit
+  hourlyQuota: number;        // 0 = no hourly quota
+  liveReserve: number;  // Share of the hourly quota backfill requests may not use
+}
+
+export interface RetrySettings {
+  retries: number;       // Extra attempts after a retryable failure
+  baseDelayMs: number;   // Backoff doubles from here, with full jitter
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerSettings {
+  failureThreshold: number;  // Consecutive failed attempts that open the circuit
+  cooldownMs: number;        // Time open before a trial request is let through
+}
+
+export interface OddsRange {
+  overMin: number | null;
+  overMax: number | null;
+  underMin: number | null;
+  underMax: number | null;
+}
+
+export interface SportSettings {
+  name: string;
+  emoji: string;
+  totalMarket: string;  // Odds summary market of the total line target alerts are built on
+  lineName: string;     // Label of that line in alerts
+  unit: string;         // What the total counts
+}
+
+export type PaperStrategy = 'flat' | 'percentage' | 'kelly';
+
+export interface StakingSettings {
+  startingBankroll: number;
+  flatStake: number;
+  stakePercent: number;
+  kellyFraction: number;
+  kellyMinSample: number;
+}
+
+/**
+ * Read the stats timezone from the environment, an unknown name falls back to UTC
+ */
+function statsTimezoneFromEnv(): string {
+  const timeZone = process.env.STATS_TIMEZONE || 'UTC';
+  if (isValidTimeZone(timeZone)) return timeZone;
+
+  console.warn(`⚠️ Unknown STATS_TIMEZONE "${timeZone}", using UTC`);
+  return 'UTC';
+}
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || '3000', 10),
@@ -12,6 +74,23 @@ export const config = {
   betsapi: {
     token: process.env.BETSAPI_TOKEN || '',
     baseUrl: process.env.BETSAPI_BASE_URL || 'https://api.b365api.com',
+    // Shared limiter for every BetsAPI request - live polling goes ahead of backfills
+    rateLimit: {
+      requestsPerSecond: parseFloat(process.env.BETSAPI_REQUESTS_PER_SECOND || '5'),
+      hourlyQuota: parseInt(process.env.BETSAPI_HOURLY_QUOTA || '3600', 10),
+      liveReserve: parseFloat(process.env.BETSAPI_LIVE_RESERVE || '0.2'),
+    } as RateLimitSettings,
+    // Retries for network, timeout, 5xx and 429 failures
+    retry: {
+      retries: parseInt(process.env.BETSAPI_RETRIES || '2', 10),
+      baseDelayMs: parseInt(process.env.BETSAPI_RETRY_BASE_MS || '500', 10),
+      maxDelayMs: parseInt(process.env.BETSAPI_RETRY_MAX_MS || '8000', 10),
+    } as RetrySettings,
+    // Polling pauses while the circuit is open
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.BETSAPI_BREAKER_THRESHOLD || '5', 10),
+      cooldownMs: parseInt(process.env.BETSAPI_BREAKER_COOLDOWN_MS || '60000', 10),
+    } as CircuitBreakerSettings,
   },
 
   // Telegram
@@ -25,7 +104,14 @@ export const config = {
     path: process.env.DATABASE_PATH || './data/betting.db',
   },
 
-  // Target Leagues
+  // External config file - leagues, polling and alert settings layered over these defaults, reloaded on change
+  configFile: {
+    path: process.env.CONFIG_FILE || './config.json',
+    watch: process.env.CONFIG_WATCH !== 'false',
+  },
+
+  // Target Leagues, names, sports and name patterns
+  // Only used to seed the leagues table on first start - manage tracked leagues via /api/leagues
   targetLeagues: (process.env.TARGET_LEAGUES || '23114,37298,38439,22614')
     .split(',')
     .map((id) => parseInt(id.trim(), 10)),
@@ -38,7 +124,22 @@ export const config = {
     22614: 'Battle 8min',
   } as Record<number, string>,
 
-  // Target Goal Lines per League (the goal line we want to detect)
+  // Sports the tracker can follow (BetsAPI sport IDs)
+  sports: {
+    1: { name: 'Soccer', emoji: '⚽', totalMarket: '1_3', lineName: 'Asian Goal Line', unit: 'goals' },
+    18: { name: 'Basketball', emoji: '🏀', totalMarket: '18_3', lineName: 'Total Points', unit: 'points' },
+  } as Record<number, SportSettings>,
+
+  // Sport of each league, e.g. LEAGUE_SPORTS=25067:18 (leagues not listed are soccer)
+  leagueSports: Object.fromEntries(
+    (process.env.LEAGUE_SPORTS || '')
+      .split(',')
+      .map((entry) => entry.split(':').map((value) => parseInt(value.trim(), 10)))
+      .filter(([leagueId, sportId]) => !isNaN(leagueId) && !isNaN(sportId))
+  ) as Record<number, number>,
+
+  // Default Target Goal Lines per League
+  // Only used to seed the detection_rules table on first start - manage live rules via /api/rules
   targetGoalLines: {
     23114: 2.5,   // GT League - 2.5 line
     37298: 1.5,   // H2H GG League - 1.5 line
@@ -46,6 +147,14 @@ export const config = {
     22614: 3.5,   // Battle 8min - 3.5 line
   } as Record<number, number>,
 
+  // Match length in minutes of play per league (esoccer clocks count real minutes)
+  matchDurations: {
+    23114: 12,    // GT League - 2 x 6 min
+    37298: 8,     // H2H GG League - 2 x 4 min
+    38439: 6,     // Battle Volta - 2 x 3 min
+    22614: 8,     // Battle 8min - 2 x 4 min
+  } as Record<number, number>,
+
   // Bet365 League Name Patterns (for raw inplay data filtering)
   // These patterns match the league names in bet365 raw data
   bet365LeaguePatterns: [
@@ -55,6 +164,9 @@ export const config = {
     { pattern: /esoccer.*battle.*8.*min/i, leagueId: 22614, name: 'Battle 8min' },
   ],
 
+  // Timezone for hour / weekday stat buckets (IANA name, e.g. Europe/London)
+  statsTimezone: statsTimezoneFromEnv(),
+
   // Polling
   pollingInterval: parseInt(process.env.POLLING_INTERVAL || '30000', 10),
 
@@ -66,10 +178,137 @@ export const config = {
     marketType: 'Asian Goal Line',
   },
 
+  // Odds summary markets stored in market_odds and checked against market rules, e.g. 1_1,1_2,1_3,1_4
+  // The Asian Goal Line (1_3) always drives target alerts, whether or not it is listed here
+  markets: {
+    tracked: (process.env.TRACKED_MARKETS || '1_3')
+      .split(',')
+      .map((market) => market.trim())
+      .filter(Boolean),
+  },
+
+  // Bookmaker comparison - a book is off-market when its no-vig over probability is this far from the median
+  oddsComparison: {
+    offMarketThreshold: parseFloat(process.env.OFF_MARKET_THRESHOLD || '0.05'),
+  },
+
+  // Live in-play stats snapshots (attacks, shots, possession, corners)
+  liveStats: {
+    enabled: process.env.LIVE_STATS !== 'false',
+    intervalSeconds: parseInt(process.env.LIVE_STATS_INTERVAL || '60', 10), // Min gap between snapshots (goals always snapshot)
+    fetchEventView: process.env.LIVE_STATS_FETCH_VIEW === 'true', // Extra /v1/event/view call when inplay has no stats
+  },
+
+  // Goal line movement alerts - compares the latest line with the odds timeline of the last N polls
+  lineMovement: {
+    default: {
+      enabled: process.env.LINE_MOVEMENT_ALERTS !== 'false',
+      dropThreshold: parseFloat(process.env.LINE_MOVEMENT_DROP || '1.0'),  // Alert when the line falls this much
+      riseThreshold: parseFloat(process.env.LINE_MOVEMENT_RISE || '0') || null, // null = don't alert on rises
+      windowPolls: parseInt(process.env.LINE_MOVEMENT_WINDOW_POLLS || '5', 10),
+      againstScore: true, // Alert when the line drops although goals were scored in the window
+    },
+    // Per-league overrides of the default settings, e.g. { 37298: { dropThreshold: 0.75 } }
+    // Basketball leagues need one with a threshold in points, e.g. { 25067: { dropThreshold: 6 } }
+    byLeague: {} as Record<number, Partial<LineMovementSettings>>,
+  },
+
+  // Odds range gating - target alerts only fire while prices are inside these bounds (null = unbounded)
+  oddsRange: {
+    default: {
+      overMin: parseFloat(process.env.ODDS_OVER_MIN || '') || null,
+      overMax: parseFloat(process.env.ODDS_OVER_MAX || '') || null,
+      underMin: parseFloat(process.env.ODDS_UNDER_MIN || '') || null,
+      underMax: parseFloat(process.env.ODDS_UNDER_MAX || '') || null,
+    } as OddsRange,
+    // Per-league overrides of the default range, e.g. { 23114: { overMin: 1.7 } }
+    byLeague: {} as Record<number, Partial<OddsRange>>,
+  },
+
+  // Paper trading - place a virtual bet on every target alert to forward-test rules
+  paperTrading: {
+    enabled: process.env.PAPER_TRADING === 'true',
+    side: (process.env.PAPER_SIDE === 'under' ? 'under' : 'over') as 'over' | 'under',
+    // Every listed strategy keeps its own bankroll, so they can be compared side by side
+    strategies: (process.env.PAPER_STRATEGIES || 'flat')
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name): name is PaperStrategy => ['flat', 'percentage', 'kelly'].includes(name)),
+    startingBankroll: parseFloat(process.env.PAPER_BANKROLL || '1000'),
+    flatStake: parseFloat(process.env.PAPER_FLAT_STAKE || '10'),
+    stakePercent: parseFloat(process.env.PAPER_STAKE_PERCENT || '2'),     // percentage strategy, % of bankroll
+    kellyFraction: parseFloat(process.env.PAPER_KELLY_FRACTION || '0.25'), // fractional Kelly multiplier
+    kellyMinSample: parseInt(process.env.PAPER_KELLY_MIN_SAMPLE || '20', 10), // settled lines needed for a hit rate
+  },
+
+  // Poisson goal model - fair over/under prices and value alerts
+  model: {
+    valueAlerts: process.env.VALUE_ALERTS !== 'false',
+    edge: parseFloat(process.env.VALUE_EDGE || '0.05'),                         // Model minus no-vig implied probability
+    leagueMinSample: parseInt(process.env.MODEL_LEAGUE_MIN_SAMPLE || '30', 10),  // Finished matches needed for a league rate
+    playerMinSample: parseInt(process.env.MODEL_PLAYER_MIN_SAMPLE || '10', 10),  // Finished matches needed to use player rates
+  },
+
+  // Streak alerts - sent every time a streak reaches or extends past the length (0 = no alerts for the scope)
+  streaks: {
+    alerts: process.env.STREAK_ALERTS !== 'false',
+    leagueLength: parseInt(process.env.STREAK_LEAGUE_LENGTH || '5', 10),
+    playerLength: parseInt(process.env.STREAK_PLAYER_LENGTH || '0', 10),
+  },
+
+  // Head-to-head summary in target alerts
+  headToHead: {
+    lastResults: parseInt(process.env.H2H_LAST_RESULTS || '5', 10),
+  },
+
   // Helper function to get target goal line for a league
   getTargetGoalLine(leagueId: number): number {
     return this.targetGoalLines[leagueId] ?? 1.5; // Default to 1.5 if not configured
   },
+
+  // Helper function to get the BetsAPI sport ID of a league
+  getLeagueSport(leagueId: number): number {
+    return this.leagueSports[leagueId] ?? 1; // Default to soccer
+  },
+
+  // Helper function to get a sport's settings
+  getSport(sportId: number): SportSettings {
+    return this.sports[sportId] ?? this.sports[1];
+  },
+
+  // Helper function to get the sport IDs of the target leagues
+  getTargetSports(): number[] {
+    return Array.from(new Set(this.targetLeagues.map((leagueId) => this.getLeagueSport(leagueId))));
+  },
+
+  // Helper function to get the total line market a league's target alerts are built on
+  getTotalMarket(leagueId: number): string {
+    return this.getSport(this.getLeagueSport(leagueId)).totalMarket;
+  },
+
+  // Helper function to get the match length for a league
+  getMatchDuration(leagueId: number): number {
+    return this.matchDurations[leagueId] ?? 90; // Default to a full football match
+  },
+
+  // Helper function to get the accepted odds range for a league
+  getOddsRange(leagueId: number): OddsRange {
+    return { ...this.oddsRange.default, ...this.oddsRange.byLeague[leagueId] };
+  },
+
+  // Helper function to get line movement alert settings for a league
+  // The default thresholds are in goals, so leagues of other sports only get alerts with their own drop threshold
+  getLineMovementSettings(leagueId: number): LineMovementSettings {
+    const override = this.lineMovement.byLeague[leagueId];
+    if (this.getLeagueSport(leagueId) === 1) {
+      return { ...this.lineMovement.default, ...override };
+    }
+
+    if (override?.dropThreshold == null) {
+      return { ...this.lineMovement.default, enabled: false };
+    }
+    return { ...this.lineMovement.default, riseThreshold: null, ...override };
+  },
 };
 
 export default config;
@@ -5,6 +5,8 @@ import { initializeDatabase } from './config/database';
 import apiRoutes from './routes/api.routes';
 import { trackerService } from './services/tracker.service';
 import { telegramService } from './services/telegram.service';
+import { leaguesService } from './services/leagues.service';
+import { configFileService } from './services/config.service';
 
 const app = express();
 
@@ -27,7 +29,27 @@ app.get('/', (req, res) => {
       history: '/api/history',
       stats: '/api/stats',
       leagues: '/api/leagues',
+      addLeague: 'POST /api/leagues',
+      discoveredLeagues: '/api/leagues/discovered',
       oddsHistory: '/api/odds-history/:matchId',
+      oddsComparison: '/api/odds-comparison/:matchId',
+      markets: '/api/markets',
+      marketOdds: '/api/market-odds/:matchId',
+      leagueStatsByHour: '/api/league-stats/:leagueId/by-hour',
+      leagueStatsByWeekday: '/api/league-stats/:leagueId/by-weekday',
+      rules: '/api/rules',
+      paperBets: '/api/paper/bets',
+      paperBankroll: '/api/paper/bankroll',
+      backtest: 'POST /api/backtest',
+      players: '/api/players',
+      playerStats: '/api/players/:id/stats',
+      headToHead: '/api/h2h?home=&away=',
+      teams: '/api/teams',
+      teamAliases: '/api/teams/aliases',
+      streaks: '/api/streaks',
+      betsapiQuota: '/api/betsapi/quota',
+      configStatus: '/api/config',
+      configReload: 'POST /api/config/reload',
       trackerStart: 'POST /api/tracker/start',
       trackerStop: 'POST /api/tracker/stop',
       telegramTest: 'POST /api/telegram/test',
@@ -41,6 +63,21 @@ async function bootstrap() {
     // Initialize database
     console.log('Initializing database...');
     initializeDatabase();
+    leaguesService.loadLeagues();
+
+    // Apply the config file - a file with errors stops startup rather than running on partial settings
+    if (configFileService.exists()) {
+      const configErrors = configFileService.load();
+      if (configErrors.length > 0) {
+        console.error(`❌ Invalid config file ${configFileService.getPath()}:\n  - ${configErrors.join('\n  - ')}`);
+        process.exit(1);
+      }
+    } else {
+      console.log(`No config file at ${configFileService.getPath()}, using environment settings`);
+    }
+    if (config.configFile.watch) {
+      configFileService.watch();
+    }
 
     // Start server - return a promise that resolves when server is listening
     const server = app.listen(config.port, () => {
@@ -1,3 +1,6 @@
+import { BetSide, SettlementOutcome } from '../utils/settlement';
+import { PaperStrategy, StakingSettings } from '../config';
+
 // Match entity
 export interface Match {
   id?: number;
@@ -7,16 +10,23 @@ export interface Match {
   home_team: string;
   away_team: string;
   detection_time: string;
-  detected_odds?: number;       // Initial/first detected goal line (stays at 1.5 if match touched 1.5)
+  detected_odds?: number;       // Initial/first detected goal line (stays at the target if match touched it)
   current_goal_line?: number;   // Current/latest goal line value
   current_score?: string;
+  current_minute?: number;      // Latest match clock minute from the inplay timer
   status: 'live' | 'finished';
   final_score_home?: number;
   final_score_away?: number;
   match_end_time?: string;
   alert_sent?: number;
   result_alert_sent?: number;
-  touched_15?: number;  // 1 if match ever reached goal line 1.5, 0 otherwise
+  target_line?: number;     // Target goal line the match was evaluated against
+  touched_target?: number;  // 1 if match ever reached target_line, 0 otherwise
+  home_player_id?: number | null;  // Esoccer player handles parsed from the team names
+  away_player_id?: number | null;
+  home_team_id?: number | null;    // Teams resolved from the names, aliases and BetsAPI team IDs
+  away_team_id?: number | null;
+  sport_id?: number;        // BetsAPI sport ID (1 = soccer, 18 = basketball)
   created_at?: string;
   updated_at?: string;
 }
@@ -28,9 +38,306 @@ export interface OddsHistory {
   odds_value?: number;
   handicap?: number;
   add_time?: string;
+  match_minute?: number;
+  match_second?: number;
   recorded_at?: string;
 }
 
+// Odds snapshot entity - one row per poll where the line, prices or score changed
+export interface OddsSnapshot {
+  id?: number;
+  match_id: string;
+  handicap?: number;
+  over_odds?: number;
+  under_odds?: number;
+  score?: string;
+  match_minute?: number;
+  match_second?: number;
+  source?: 'odds_summary' | 'prematch';
+  recorded_at?: string;
+}
+
+// In-play pressure stats for both sides (null when the feed doesn't report one)
+export interface LiveStats {
+  home_attacks: number | null;
+  away_attacks: number | null;
+  home_dangerous_attacks: number | null;
+  away_dangerous_attacks: number | null;
+  home_shots_on: number | null;
+  away_shots_on: number | null;
+  home_shots_off: number | null;
+  away_shots_off: number | null;
+  home_possession: number | null;
+  away_possession: number | null;
+  home_corners: number | null;
+  away_corners: number | null;
+}
+
+// Live stats snapshot entity - linked to the odds snapshot in force when it was taken
+export interface LiveStatsSnapshot extends LiveStats {
+  id?: number;
+  match_id: string;
+  odds_snapshot_id?: number | null;
+  score?: string;
+  match_minute?: number | null;
+  recorded_at?: string;
+}
+
+// Bookmaker odds entity - per-bookmaker 1_3 timeline, a row whenever that book's line or prices changed
+export interface BookmakerOdds {
+  id?: number;
+  match_id: string;
+  bookmaker: string;
+  handicap: number;
+  over_odds?: number | null;
+  under_odds?: number | null;
+  score?: string;
+  match_minute?: number | null;
+  recorded_at?: string;
+}
+
+// Latest prices across bookmakers for a match
+export interface OddsComparison {
+  matchId: string;
+  consensusLine: number | null;   // Line quoted by most books
+  bestOver: { bookmaker: string; odds: number } | null;  // Best prices on the consensus line
+  bestUnder: { bookmaker: string; odds: number } | null;
+  bookmakers: Array<BookmakerOdds & {
+    overProbability: number | null; // No-vig implied probability of the over
+    offMarket: 'line' | 'price' | null;
+  }>;
+}
+
+// Sharp goal line movement detected from the odds timeline
+export interface LineMovementAlert {
+  id?: number;
+  match_id: string;
+  type: 'drop' | 'rise' | 'against_score';
+  from_line: number;
+  to_line: number;
+  score_before?: string;
+  score_after?: string;
+  minute_before?: number | null;
+  minute_after?: number | null;
+  window_seconds?: number;
+  alert_sent?: number;
+  created_at?: string;
+}
+
+// Poisson model estimate for the current goal line of a live match
+export interface GoalModelEstimate {
+  goalLine: number;
+  minute: number;
+  currentGoals: number;
+  expectedTotal: number;      // Expected full-time goals for the pairing
+  expectedRemaining: number;  // Expected goals still to come
+  source: 'player' | 'league';
+  sample: number;             // Finished matches behind the rate
+  overProbability: number;
+  underProbability: number;
+  fairOverOdds: number;
+  fairUnderOdds: number;
+}
+
+// Value bet alert - the model's probability beat the bookmaker's no-vig implied probability by the edge
+export interface ValueAlert {
+  id?: number;
+  match_id: string;
+  goal_line: number;
+  side: 'over' | 'under';
+  odds: number;
+  model_probability: number;
+  implied_probability: number;
+  edge: number;
+  fair_odds: number;
+  score?: string;
+  match_minute?: number | null;
+  alert_sent?: number;
+  created_at?: string;
+}
+
+// Per-match, per-goal-line alert state (each target line fires and settles independently)
+export interface MatchLineAlert {
+  id?: number;
+  match_id: string;
+  goal_line: number;
+  rule_id?: number;
+  touched_at?: string;
+  score_at_touch?: string;
+  over_odds?: number;         // Prices when the line was first touched
+  under_odds?: number;
+  status?: 'touched' | 'price_rejected' | 'alerted';
+  alert_over_odds?: number;   // Prices when the alert was sent
+  alert_under_odds?: number;
+  alerted_at?: string;
+  alert_sent?: number;
+  result?: 'over' | 'under' | 'push' | null;
+  over_outcome?: SettlementOutcome | null;   // Asian settlement of each side (quarter lines half-win/lose)
+  under_outcome?: SettlementOutcome | null;
+  settled_at?: string;
+}
+
+// Virtual bet placed on a target alert for forward-testing a staking strategy
+export interface PaperBet {
+  id?: number;
+  match_id: string;
+  league_id: number;
+  home_team: string;
+  away_team: string;
+  rule_id?: number | null;
+  strategy: PaperStrategy;
+  side: BetSide;
+  goal_line: number;
+  odds: number;
+  stake: number;
+  bankroll_before: number;
+  status?: 'open' | 'settled';
+  outcome?: SettlementOutcome | null;
+  payout?: number | null;     // Total return including stake
+  profit?: number | null;
+  placed_at?: string;
+  settled_at?: string | null;
+}
+
+// Point on a strategy's equity curve after a bet settled
+export interface BankrollPoint {
+  betId: number;
+  matchId: string;
+  settledAt: string;
+  profit: number;
+  bankroll: number;
+}
+
+// Backtest request - a rule replayed over stored odds history of finished matches
+export interface BacktestRequest {
+  ruleId?: number;                    // Replay a stored rule...
+  rule?: Partial<DetectionRule>;      // ...or an ad-hoc one
+  leagueIds?: number[];               // Overrides the rule's league
+  side?: BetSide;
+  from?: string;                      // Detection time bounds (ISO date)
+  to?: string;
+  staking?: Partial<StakingSettings> & { strategy?: PaperStrategy };
+}
+
+// Single simulated bet in a backtest
+export interface BacktestBet {
+  matchId: string;
+  leagueId: number;
+  homeTeam: string;
+  awayTeam: string;
+  detectionTime: string;
+  goalLine: number;
+  minute: number | null;
+  score: string | null;
+  odds: number;
+  stake: number;
+  finalScore: string;
+  outcome: SettlementOutcome;
+  profit: number;
+  bankroll: number;
+}
+
+// Tracked league (leagues table) - loaded into the config league maps
+export interface League {
+  league_id: number;
+  name: string;
+  sport_id: number;
+  name_pattern?: string | null;  // Case-insensitive regex matched against inplay league names
+  config_target_line?: number | null;  // Target line last applied from the config file
+  created_at?: string;
+}
+
+// League seen in the inplay feed, tracked or not
+export interface DiscoveredLeague {
+  league_id: number;
+  name: string;
+  sport_id?: number | null;
+  first_seen?: string;
+  last_seen?: string;
+  match_count: number;  // Distinct events seen
+}
+
+// Input of POST /api/leagues
+export interface LeagueInput {
+  leagueId: number;
+  name: string;
+  sportId?: number;
+  targetLine?: number;   // Creates an exact-line detection rule for the league
+  namePattern?: string;
+}
+
+// Esoccer player (the handle in team names like "Arsenal (Boulevard)")
+export interface Player {
+  id: number;
+  name: string;
+  first_seen?: string;
+  last_seen?: string;
+}
+
+export interface Team {
+  id: number;
+  name: string;
+  name_key: string;            // Case and whitespace folded name
+  betsapi_id: string | null;   // BetsAPI home.id / away.id
+  first_seen?: string;
+  last_seen?: string;
+}
+
+// Another spelling of a team, resolved to the team before any name lookup
+export interface TeamAlias {
+  id: number;
+  alias: string;
+  alias_key: string;
+  team_id: number;
+  created_at?: string;
+}
+
+// Stored meetings between two teams or esoccer players
+export interface HeadToHeadSummary {
+  home: string;
+  away: string;
+  byPlayer: boolean;          // Matched on player handles rather than teams
+  matches: number;
+  homeWins: number;           // From the perspective of the requested home side
+  awayWins: number;
+  draws: number;
+  avgTotalGoals: number;
+  line: number | null;        // Line the over rate is measured against (null = each league's target)
+  overs: number;              // Over win-equivalents, settled on the line (half wins count half)
+  overRate: number;           // Percent of decided meetings, pushes excluded
+  lastResults: Array<{
+    matchId: string;
+    leagueId: number;
+    homeTeam: string;
+    awayTeam: string;
+    score: string;
+    totalGoals: number;
+    detectionTime: string;
+  }>;
+}
+
+// Running streak of consecutive finished matches for a league or a player
+export interface Streak {
+  id?: number;
+  scope: 'league' | 'player';
+  scope_id: number;              // League ID or player ID
+  kind: 'total' | 'touch';       // Over/under the target line, or touched/didn't touch it
+  value: 'over' | 'under' | 'touched' | 'untouched';
+  length: number;
+  target_line?: number | null;   // Target line of the latest match in the streak
+  last_match_id?: string;
+  alerted_length?: number;
+  updated_at?: string;
+}
+
+// Touch ratio of a single target line within a league
+export interface LineTouchStats {
+  goalLine: number;
+  total: number;
+  touched: number;
+  ratio: number;
+}
+
 // API log entity
 export interface ApiLog {
   id?: number;
@@ -140,6 +447,7 @@ export interface BetsAPIResult {
   };
   ss?: string;
   scores?: Record<string, { home: string; away: string }>;
+  stats?: Record<string, any>;
 }
 
 // Raw Bet365 Inplay Data Types (compatible with both old and new API formats)
@@ -177,13 +485,173 @@ export interface Bet365ParsedMatch {
   leagueId: number;
   homeTeam: string;
   awayTeam: string;
+  homeTeamApiId: string | null;
+  awayTeamApiId: string | null;
   score?: string;
   minute?: string;
 }
 
+// Live polling requests are sent before backfill requests
+export type RequestPriority = 'live' | 'backfill';
+
+// Why a BetsAPI request failed - network, timeout and server errors count as the API being down
+export type ApiErrorKind = 'network' | 'timeout' | 'server' | 'rate_limited' | 'client' | 'api' | 'circuit_open';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  status: number | null;  // HTTP status when the API answered
+  message: string;
+  retryable: boolean;
+}
+
+// Outcome of a BetsAPI request, so a failure is never mistaken for an empty result
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+export interface CircuitBreakerStatus {
+  state: 'closed' | 'open' | 'half_open';
+  failures: number;           // Consecutive failed attempts
+  openedAt: string | null;
+  retryAt: string | null;     // When a trial request is let through
+}
+
+// BetsAPI request budget - our own rolling hour count and what the API last reported
+export interface ApiQuotaUsage {
+  requestsPerSecond: number;
+  hourlyQuota: number;
+  liveReserve: number;
+  usedLastHour: { total: number; live: number; backfill: number };
+  remainingThisHour: number | null;  // null when there is no hourly quota
+  queued: { live: number; backfill: number };
+  pausedUntil: string | null;
+  server: { limit: number | null; remaining: number; resetAt: string | null } | null;
+}
+
+// Live match from a target league, as returned by getInplayFilterMatches
+export interface InplayMatch {
+  id: string;
+  ourEventId: string;
+  bet365Id: string;
+  sportId: number;
+  leagueId: number;
+  leagueName: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamApiId: string | null;  // home.id - stable across spellings
+  awayTeamApiId: string | null;
+  score: string;
+  minute: number | null;   // timer.tm
+  second: number | null;   // timer.ts
+  timerRunning: boolean;   // timer.tt === '1'
+  stats: LiveStats | null; // In-play stats when the feed includes them
+}
+
+// Asian Goal Line reading (market 1_3) for a live match
+export interface GoalLineResult {
+  handicap: number;
+  overOdds: string;
+  underOdds: string;
+  score: string;
+  minute?: number | null;  // Match minute when the line was read
+  second?: number | null;
+  source?: 'odds_summary' | 'prematch';
+  bookmakers?: BookmakerGoalLine[]; // Every bookmaker's 1_3 line in the odds summary
+}
+
+// One bookmaker's Asian Goal Line (market 1_3) from the odds summary
+export interface BookmakerGoalLine {
+  bookmaker: string;
+  handicap: number;
+  overOdds: string;
+  underOdds: string;
+}
+
+// One market of the odds summary as read for a bookmaker, e.g. 1_1 = { home, draw, away }
+export interface MarketReading {
+  market: string;                  // BetsAPI market key, e.g. '1_3'
+  handicap: number | null;         // Line of handicap / total markets, null for 1X2
+  prices: Record<string, string>;  // Selection -> decimal odds as returned by the API
+  score: string;
+}
+
+// Parses one odds summary market - every tracked market has its own extractor
+export interface MarketExtractor {
+  market: string;
+  name: string;
+  selections: string[];
+  extract(odds: any): MarketReading | null;
+}
+
+// Stored price of one market selection (market_odds table)
+export interface MarketOdds {
+  id?: number;
+  match_id: string;
+  market: string;
+  bookmaker: string;
+  selection: string;
+  handicap: number | null;
+  odds: number | null;
+  score?: string | null;
+  match_minute?: number | null;
+  recorded_at?: string;
+}
+
+// Detection rule firing on a market other than the goal line - once per match and rule
+export interface MarketAlert {
+  id?: number;
+  match_id: string;
+  rule_id: number;
+  market: string;
+  selection?: string | null;
+  handicap?: number | null;
+  odds?: number | null;
+  score?: string | null;
+  match_minute?: number | null;
+  alert_sent?: number;
+  created_at?: string;
+}
+
 // Telegram message types
 export interface TelegramAlert {
   type: 'detection' | 'result';
   match: Match;
   oddsHistory?: OddsHistory[];
 }
+
+// Detection rule entity - conditions a live match must meet to trigger a target alert
+// Null fields are treated as "any"
+export interface DetectionRule {
+  id?: number;
+  name: string;
+  league_id?: number | null;       // null = all tracked leagues
+  market?: string;                 // Odds summary market, '1_3' (Asian Goal Line) by default
+  goal_line?: number | null;       // Exact line of the market (Asian goal line for 1_3)
+  goal_line_min?: number | null;   // Inclusive line range (used when goal_line is null)
+  goal_line_max?: number | null;
+  minute_min?: number | null;      // Inclusive match minute window
+  minute_max?: number | null;
+  score?: string | null;           // Exact current score, e.g. "1-0"
+  total_goals_min?: number | null; // Inclusive bounds on goals scored so far
+  total_goals_max?: number | null;
+  over_odds_min?: number | null;   // Inclusive bounds on over/under prices
+  over_odds_max?: number | null;
+  under_odds_min?: number | null;
+  under_odds_max?: number | null;
+  selection?: string | null;       // Market selection the odds bounds apply to, e.g. 'draw'
+  odds_min?: number | null;
+  odds_max?: number | null;
+  enabled?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Live match state a detection rule is evaluated against
+export interface RuleContext {
+  leagueId: number;
+  market?: string;                          // Defaults to the goal line market
+  handicap: number | null;
+  score: string;
+  minute?: number | null;
+  overOdds?: number | null;
+  underOdds?: number | null;
+  prices?: Record<string, number | null>;   // Selection prices for selection odds bounds
+}
@@ -2,7 +2,22 @@ import { Router, Request, Response } from 'express';
 import { trackerService } from '../services/tracker.service';
 import { telegramService } from '../services/telegram.service';
 import { authService } from '../services/auth.service';
+import { rulesService } from '../services/rules.service';
+import { movementService } from '../services/movement.service';
+import { paperTradingService } from '../services/paper.service';
+import { backtestService } from '../services/backtest.service';
+import { playersService } from '../services/players.service';
+import { teamsService } from '../services/teams.service';
+import { streaksService } from '../services/streaks.service';
+import { modelService } from '../services/model.service';
+import { bookmakerService } from '../services/bookmaker.service';
+import { marketsService } from '../services/markets.service';
+import { leaguesService } from '../services/leagues.service';
+import { configFileService } from '../services/config.service';
+import { betsapiService } from '../services/betsapi.service';
 import { config } from '../config';
+import { isValidTimeZone } from '../utils/time';
+import { GOAL_LINE_MARKET } from '../utils/markets';
 
 const router = Router();
 
@@ -80,10 +95,12 @@ router.post('/auth/login', (req: Request, res: Response) => {
  * GET /api/health - Health check endpoint
  */
 router.get('/health', (req: Request, res: Response) => {
+  const betsapi = betsapiService.getCircuitStatus();
   res.json({
-    status: 'ok',
+    status: betsapi.state === 'closed' ? 'ok' : 'degraded',
     timestamp: new Date().toISOString(),
     trackerRunning: trackerService.isTrackerRunning(),
+    betsapi,
   });
 });
 
@@ -157,6 +174,7 @@ router.get('/stats', (req: Request, res: Response) => {
     const leagueStats = Object.entries(stats.byLeague).map(([leagueId, count]) => ({
       leagueId: parseInt(leagueId, 10),
       leagueName: config.leagueNames[parseInt(leagueId, 10)] || `League ${leagueId}`,
+      sport: config.getSport(config.getLeagueSport(parseInt(leagueId, 10))).name,
       count,
     }));
 
@@ -177,6 +195,9 @@ router.get('/stats', (req: Request, res: Response) => {
 
 /**
  * GET /api/odds-history/:matchId - Get odds history for a match
+ * timeline is the append-only per-poll record (every change of line, prices or score);
+ * liveStats are in-play stats snapshots, each pointing at the timeline row in force when taken;
+ * oddsHistory is the legacy list of distinct line/price pairs
  */
 router.get('/odds-history/:matchId', (req: Request, res: Response) => {
   try {
@@ -195,6 +216,13 @@ router.get('/odds-history/:matchId', (req: Request, res: Response) => {
     res.json({
       success: true,
       match,
+      lineAlerts: trackerService.getLineAlerts(matchId),
+      timeline: trackerService.getOddsTimeline(matchId),
+      liveStats: trackerService.getLiveStats(matchId),
+      movements: movementService.getMovementAlerts(matchId),
+      valueAlerts: modelService.getValueAlerts(matchId),
+      bookmakerOdds: bookmakerService.getOddsTimeline(matchId),
+      marketAlerts: marketsService.getMarketAlerts(matchId),
       oddsHistory,
     });
   } catch (error: any) {
@@ -205,6 +233,109 @@ router.get('/odds-history/:matchId', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/markets - Odds summary markets with an extractor and whether each is tracked
+ */
+router.get('/markets', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      markets: marketsService.getMarkets(),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/market-odds/:matchId - Stored odds of the tracked markets for a match (?market=1_1)
+ */
+router.get('/market-odds/:matchId', (req: Request, res: Response) => {
+  try {
+    const { matchId } = req.params;
+    const { market } = req.query as Record<string, string>;
+    const match = trackerService.getMatch(matchId);
+
+    if (!match) {
+      res.status(404).json({
+        success: false,
+        error: 'Match not found',
+      });
+      return;
+    }
+
+    const odds = marketsService.getMarketOdds(matchId, market);
+
+    res.json({
+      success: true,
+      match,
+      count: odds.length,
+      odds,
+      alerts: marketsService.getMarketAlerts(matchId),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/odds-comparison - Compare bookmaker prices for every live match
+ */
+router.get('/odds-comparison', (req: Request, res: Response) => {
+  try {
+    const comparisons = trackerService.getLiveMatches().map((match) => ({
+      match,
+      ...bookmakerService.compare(match.match_id),
+    }));
+
+    res.json({
+      success: true,
+      count: comparisons.length,
+      comparisons,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/odds-comparison/:matchId - Best over/under price and off-market books for a match
+ */
+router.get('/odds-comparison/:matchId', (req: Request, res: Response) => {
+  try {
+    const { matchId } = req.params;
+    const match = trackerService.getMatch(matchId);
+
+    if (!match) {
+      res.status(404).json({
+        success: false,
+        error: 'Match not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      match,
+      ...bookmakerService.compare(matchId),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * GET /api/leagues - Get target leagues
  */
@@ -212,6 +343,10 @@ router.get('/leagues', (req: Request, res: Response) => {
   const leagues = config.targetLeagues.map((id) => ({
     id,
     name: config.leagueNames[id] || `League ${id}`,
+    sportId: config.getLeagueSport(id),
+    sport: config.getSport(config.getLeagueSport(id)).name,
+    namePattern: config.bet365LeaguePatterns.find((p) => p.leagueId === id)?.pattern.source ?? null,
+    targetLine: rulesService.getTargetGoalLine(id),
   }));
 
   res.json({
@@ -220,6 +355,67 @@ router.get('/leagues', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/leagues/discovered - Leagues seen in the inplay feed (?search=, ?untracked=true)
+ */
+router.get('/leagues/discovered', (req: Request, res: Response) => {
+  try {
+    const { search, untracked } = req.query as Record<string, string>;
+
+    const leagues = leaguesService.getDiscoveredLeagues({
+      search,
+      untracked: untracked === 'true',
+    });
+
+    res.json({
+      success: true,
+      count: leagues.length,
+      leagues,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/leagues - Start tracking a league (applies from the next poll)
+ */
+router.post('/leagues', (req: Request, res: Response) => {
+  try {
+    const input = req.body || {};
+    const validationError = leaguesService.validateLeague(input);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    if (leaguesService.getLeague(input.leagueId)) {
+      res.status(409).json({
+        success: false,
+        error: 'League is already tracked',
+      });
+      return;
+    }
+
+    const result = leaguesService.addLeague(input);
+    res.status(201).json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * GET /api/league-stats/:leagueId - Get goal line statistics for a specific league
  */
@@ -239,7 +435,10 @@ router.get('/league-stats/:leagueId', (req: Request, res: Response) => {
       success: true,
       leagueId,
       leagueName: config.leagueNames[leagueId] || `League ${leagueId}`,
-      targetLine: config.targetGoalLines[leagueId] ?? 1.5,
+      sport: config.getSport(config.getLeagueSport(leagueId)).name,
+      targetLine: rulesService.getTargetGoalLine(leagueId),
+      targetLines: rulesService.getTargetGoalLines(leagueId),
+      lineTouchStats: trackerService.getLineTouchStats(leagueId)[leagueId] || [],
       ...stats,
     });
   } catch (error: any) {
@@ -250,6 +449,601 @@ router.get('/league-stats/:leagueId', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/league-stats/:leagueId/by-hour - Touch rate, over rate and ROI per hour of day
+ */
+router.get('/league-stats/:leagueId/by-hour', (req: Request, res: Response) => {
+  sendTimeBreakdown(req, res, 'hour');
+});
+
+/**
+ * GET /api/league-stats/:leagueId/by-weekday - Touch rate, over rate and ROI per weekday
+ */
+router.get('/league-stats/:leagueId/by-weekday', (req: Request, res: Response) => {
+  sendTimeBreakdown(req, res, 'weekday');
+});
+
+function sendTimeBreakdown(req: Request, res: Response, bucket: 'hour' | 'weekday'): void {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    if (isNaN(leagueId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid league ID',
+      });
+      return;
+    }
+
+    const timezone = (req.query.tz as string) || config.statsTimezone;
+    if (!isValidTimeZone(timezone)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid timezone: ${timezone}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      leagueId,
+      leagueName: config.leagueNames[leagueId] || `League ${leagueId}`,
+      sport: config.getSport(config.getLeagueSport(leagueId)).name,
+      timezone,
+      buckets: trackerService.getLeagueTimeBreakdown(leagueId, bucket, timezone),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * GET /api/rules - List detection rules
+ */
+router.get('/rules', (req: Request, res: Response) => {
+  try {
+    const { league_id, enabled } = req.query as Record<string, string>;
+
+    const rules = rulesService.getRules({
+      leagueId: league_id ? parseInt(league_id, 10) : undefined,
+      enabled: enabled !== undefined ? enabled === 'true' || enabled === '1' : undefined,
+    });
+
+    res.json({
+      success: true,
+      count: rules.length,
+      rules,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/rules/:id - Get a single detection rule
+ */
+router.get('/rules/:id', (req: Request, res: Response) => {
+  try {
+    const rule = rulesService.getRule(parseInt(req.params.id, 10));
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      rule,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/rules - Create a detection rule (applies from the next poll)
+ */
+router.post('/rules', (req: Request, res: Response) => {
+  try {
+    const validationError = rulesService.validateRule(req.body || {});
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    const rule = rulesService.createRule(req.body);
+    res.status(201).json({
+      success: true,
+      rule,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/rules/:id - Update a detection rule (applies from the next poll)
+ */
+router.put('/rules/:id', (req: Request, res: Response) => {
+  try {
+    const result = rulesService.updateRule(parseInt(req.params.id, 10), req.body || {});
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+      return;
+    }
+
+    if (result.error) {
+      res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      rule: result.rule,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/rules/:id - Delete a detection rule
+ */
+router.delete('/rules/:id', (req: Request, res: Response) => {
+  try {
+    const deleted = rulesService.deleteRule(parseInt(req.params.id, 10));
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Rule deleted',
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/paper/bets - List paper trading bets
+ */
+router.get('/paper/bets', (req: Request, res: Response) => {
+  try {
+    const { strategy, status, limit } = req.query as Record<string, string>;
+
+    const bets = paperTradingService.getBets({
+      strategy,
+      status,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      enabled: config.paperTrading.enabled,
+      count: bets.length,
+      bets,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/paper/bankroll - Get bankroll and equity curve per staking strategy
+ */
+router.get('/paper/bankroll', (req: Request, res: Response) => {
+  try {
+    const { strategy } = req.query as Record<string, string>;
+    const strategies = strategy ? [strategy] : paperTradingService.getStrategies();
+
+    res.json({
+      success: true,
+      enabled: config.paperTrading.enabled,
+      side: config.paperTrading.side,
+      bankrolls: strategies.map((name) => paperTradingService.getBankrollSummary(name)),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/streaks - List current league and player streaks, longest first
+ */
+router.get('/streaks', (req: Request, res: Response) => {
+  try {
+    const { scope, kind, min_length, scope_id } = req.query as Record<string, string>;
+
+    const streaks = streaksService.getStreaks({
+      scope,
+      kind,
+      minLength: min_length ? parseInt(min_length, 10) : undefined,
+      scopeId: scope_id ? parseInt(scope_id, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      count: streaks.length,
+      streaks,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/backtest - Replay a rule against stored odds history of finished matches
+ */
+router.post('/backtest', (req: Request, res: Response) => {
+  try {
+    const input = req.body || {};
+    const validationError = backtestService.validateRequest(input);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    const rule = input.ruleId !== undefined ? rulesService.getRule(input.ruleId) : input.rule;
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'Rule not found',
+      });
+      return;
+    }
+
+    const totalMarkets = Object.values(config.sports).map((sport) => sport.totalMarket);
+    if (!totalMarkets.includes(rule.market ?? GOAL_LINE_MARKET)) {
+      res.status(400).json({
+        success: false,
+        error: `Backtests only support total line markets (${totalMarkets.join(', ')})`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      ...backtestService.run(rule, input),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/players - List esoccer players
+ */
+router.get('/players', (req: Request, res: Response) => {
+  try {
+    const { search, limit } = req.query as Record<string, string>;
+
+    const players = playersService.getPlayers({
+      search,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      count: players.length,
+      players,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/players/:id/stats - Get goal statistics for a player
+ */
+router.get('/players/:id/stats', (req: Request, res: Response) => {
+  try {
+    const player = playersService.getPlayer(parseInt(req.params.id, 10));
+
+    if (!player) {
+      res.status(404).json({
+        success: false,
+        error: 'Player not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      player,
+      ...playersService.getPlayerStats(player.id),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/h2h?home=&away= - Get stored meetings between two teams or players
+ */
+router.get('/h2h', (req: Request, res: Response) => {
+  try {
+    const { home, away, league_id, line, limit } = req.query as Record<string, string>;
+
+    if (!home || !away) {
+      res.status(400).json({
+        success: false,
+        error: 'home and away are required',
+      });
+      return;
+    }
+
+    const headToHead = playersService.getHeadToHead(home, away, {
+      leagueId: league_id ? parseInt(league_id, 10) : undefined,
+      line: line ? parseFloat(line) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      ...headToHead,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/teams - List teams with their tracked match counts
+ */
+router.get('/teams', (req: Request, res: Response) => {
+  try {
+    const { search, limit } = req.query as Record<string, string>;
+
+    const teams = teamsService.getTeams({
+      search,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      count: teams.length,
+      teams,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/teams/aliases - List team aliases (optional ?team_id=)
+ */
+router.get('/teams/aliases', (req: Request, res: Response) => {
+  try {
+    const { team_id } = req.query as Record<string, string>;
+    const aliases = teamsService.getAliases(team_id ? parseInt(team_id, 10) : undefined);
+
+    res.json({
+      success: true,
+      count: aliases.length,
+      aliases,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/teams/aliases - Add a spelling of a team, merging the team already stored under it
+ */
+router.post('/teams/aliases', (req: Request, res: Response) => {
+  try {
+    const input = req.body || {};
+    const validationError = teamsService.validateAlias(input);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    const team = teamsService.getTeam(input.teamId);
+    if (!team) {
+      res.status(404).json({
+        success: false,
+        error: 'Team not found',
+      });
+      return;
+    }
+
+    const existing = teamsService.getAliasByName(input.alias);
+    if (existing || teamsService.findTeam(input.alias)?.id === team.id) {
+      res.status(409).json({
+        success: false,
+        error: existing ? 'Alias already exists' : 'Alias is already the team name',
+      });
+      return;
+    }
+
+    const result = teamsService.addAlias(input.alias, team.id);
+    res.status(201).json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/teams/aliases/:id - Delete a team alias
+ */
+router.delete('/teams/aliases/:id', (req: Request, res: Response) => {
+  try {
+    const deleted = teamsService.deleteAlias(parseInt(req.params.id, 10));
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Alias not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Alias deleted',
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/betsapi/quota - Get BetsAPI request budget usage
+ */
+router.get('/betsapi/quota', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      quota: betsapiService.getQuotaUsage(),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/config - Get the config file status and the settings it controls
+ */
+router.get('/config', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      file: configFileService.getStatus(),
+      settings: {
+        pollingInterval: config.pollingInterval,
+        maxMatches: config.maxMatches,
+        leagues: config.targetLeagues.map((leagueId) => ({
+          leagueId,
+          name: config.leagueNames[leagueId],
+          sportId: config.getLeagueSport(leagueId),
+          targetLine: rulesService.getTargetGoalLine(leagueId),
+          matchDuration: config.getMatchDuration(leagueId),
+        })),
+        alerts: {
+          lineMovement: config.lineMovement,
+          oddsRange: config.oddsRange,
+          model: config.model,
+          streaks: config.streaks,
+          headToHead: config.headToHead,
+        },
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/config/reload - Reload the config file, an invalid file is rejected and the current settings kept
+ */
+router.post('/config/reload', (req: Request, res: Response) => {
+  try {
+    const errors = configFileService.load();
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Config file rejected, previous settings kept',
+        errors,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Config file reloaded',
+      file: configFileService.getStatus(),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * POST /api/tracker/start - Start the tracker
  */
@@ -0,0 +1,96 @@
+import db, { initializeDatabase } from '../config/database';
+import { BacktestRequest } from '../models/types';
+import { backtestService } from './backtest.service';
+import { leaguesService } from './leagues.service';
+
+beforeAll(() => {
+  initializeDatabase();
+});
+
+describe('backtestService.validateRequest', () => {
+  const rule = { goal_line: 2.5 };
+  const validate = (input: Partial<BacktestRequest>) => backtestService.validateRequest({ rule, ...input } as BacktestRequest);
+
+  it('accepts a minimal request', () => {
+    expect(validate({})).toBeNull();
+    expect(backtestService.validateRequest({ ruleId: 1 })).toBeNull();
+  });
+
+  it('requires a rule', () => {
+    expect(backtestService.validateRequest({})).toBe('Either ruleId or rule is required');
+  });
+
+  it('rejects empty or non-numeric league lists', () => {
+    expect(validate({ leagueIds: [] })).toBe('leagueIds must not be empty');
+    expect(validate({ leagueIds: ['1'] as any })).toBe('leagueIds must be an array of numbers');
+  });
+
+  it('rejects invalid and reversed date bounds', () => {
+    expect(validate({ from: 'yesterday' })).toBe('from must be a valid date');
+    expect(validate({ to: 20240101 as any })).toBe('to must be a valid date');
+    expect(validate({ from: '2024-02-01', to: '2024-01-01' })).toBe('from must not be after to');
+    expect(validate({ from: '2024-01-01', to: '2024-01-01' })).toBeNull();
+  });
+
+  it('rejects an unknown side', () => {
+    expect(validate({ side: 'draw' as any })).toBe('side must be "over" or "under"');
+  });
+
+  it('rejects unknown staking strategies and settings', () => {
+    expect(validate({ staking: { strategy: 'martingale' as any } })).toBe('staking.strategy must be one of flat, percentage, kelly');
+    expect(validate({ staking: { mode: 'flat' } as any })).toBe('Unknown staking setting: mode');
+    expect(validate({ staking: [] as any })).toBe('staking must be an object');
+  });
+
+  it('rejects negative, zero and non-finite staking amounts', () => {
+    expect(validate({ staking: { flatStake: -10 } })).toBe('staking.flatStake must be a positive number');
+    expect(validate({ staking: { startingBankroll: 0 } })).toBe('staking.startingBankroll must be a positive number');
+    expect(validate({ staking: { kellyFraction: NaN } })).toBe('staking.kellyFraction must be a positive number');
+    expect(validate({ staking: { stakePercent: '2' as any } })).toBe('staking.stakePercent must be a positive number');
+  });
+
+  it('rejects out of range staking fractions and samples', () => {
+    expect(validate({ staking: { stakePercent: 150 } })).toBe('staking.stakePercent must be at most 100');
+    expect(validate({ staking: { kellyFraction: 1.5 } })).toBe('staking.kellyFraction must be at most 1');
+    expect(validate({ staking: { kellyMinSample: 2.5 } })).toBe('staking.kellyMinSample must be a non-negative integer');
+  });
+
+  it('accepts valid staking settings', () => {
+    expect(validate({ staking: { strategy: 'kelly', kellyFraction: 0.5, kellyMinSample: 0, startingBankroll: 500 } })).toBeNull();
+  });
+});
+
+describe('backtestService.run', () => {
+  const BASKETBALL_LEAGUE = 9001;
+
+  beforeAll(() => {
+    leaguesService.addLeague({ leagueId: BASKETBALL_LEAGUE, name: 'Test Basketball', sportId: 18 });
+
+    db.prepare(`
+      INSERT INTO matches (match_id, league_id, sport_id, home_team, away_team, detection_time, status, final_score_home, final_score_away)
+      VALUES ('bb1', ?, 18, 'Home', 'Away', '2024-01-01T12:00:00.000Z', 'finished', 95, 90)
+    `).run(BASKETBALL_LEAGUE);
+    const snapshot = db.prepare(`
+      INSERT INTO odds_snapshots (match_id, handicap, over_odds, under_odds, score, match_minute) VALUES ('bb1', ?, ?, ?, ?, ?)
+    `);
+    snapshot.run(178.5, 1.85, 1.95, '20-18', 5);
+    snapshot.run(180.5, 1.9, 1.9, '40-41', 10);
+  });
+
+  it('replays total points rules on basketball leagues', () => {
+    const rule = { name: 'Points 180.5', market: '18_3', goal_line: 180.5 };
+    const result = backtestService.run(rule, { rule, leagueIds: [BASKETBALL_LEAGUE], staking: { flatStake: 10 } });
+
+    expect(result.betCount).toBe(1);
+    expect(result.bets[0]).toMatchObject({ matchId: 'bb1', goalLine: 180.5, odds: 1.9, stake: 10, outcome: 'win', profit: 9 });
+    expect(result.hitRate).toBe(100);
+  });
+
+  it('does not fire goal line rules on basketball timelines', () => {
+    const rule = { name: 'Goal line 180.5', goal_line: 180.5 };
+    const result = backtestService.run(rule, { rule, leagueIds: [BASKETBALL_LEAGUE] });
+
+    expect(result.matchesReplayed).toBe(1);
+    expect(result.betCount).toBe(0);
+  });
+});
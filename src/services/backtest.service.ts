@@ -0,0 +1,310 @@
+import db from '../config/database';
+import { config, PaperStrategy, StakingSettings } from '../config';
+import { BacktestBet, BacktestRequest, DetectionRule, RuleContext } from '../models/types';
+import { rulesService } from './rules.service';
+import { paperTradingService } from './paper.service';
+import { BetSide, hitRateOf, settleTotalLine, SettlementOutcome, WIN_SHARE } from '../utils/settlement';
+
+const STRATEGIES: PaperStrategy[] = ['flat', 'percentage', 'kelly'];
+const STAKING_KEYS = ['strategy', 'startingBankroll', 'flatStake', 'stakePercent', 'kellyFraction', 'kellyMinSample'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// One point of a match's odds timeline, from odds_snapshots or (for older matches) odds_history
+interface TimelineRow {
+  handicap: number;
+  over_odds: number | null;
+  under_odds: number | null;
+  score: string | null;
+  match_minute: number | null;
+}
+
+class BacktestService {
+  /**
+   * Validate a backtest request, returns an error message or null if valid
+   */
+  validateRequest(input: BacktestRequest): string | null {
+    if (input.ruleId === undefined && !input.rule) {
+      return 'Either ruleId or rule is required';
+    }
+
+    if (input.rule) {
+      const ruleError = rulesService.validateRule(input.rule, true);
+      if (ruleError) return ruleError;
+    }
+
+    if (input.leagueIds !== undefined) {
+      if (!Array.isArray(input.leagueIds) || input.leagueIds.some((id) => typeof id !== 'number' || isNaN(id))) {
+        return 'leagueIds must be an array of numbers';
+      }
+      if (input.leagueIds.length === 0) {
+        return 'leagueIds must not be empty';
+      }
+    }
+
+    for (const bound of ['from', 'to'] as const) {
+      const value = input[bound];
+      if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+        return `${bound} must be a valid date`;
+      }
+    }
+    if (input.from !== undefined && input.to !== undefined && Date.parse(input.from) > Date.parse(input.to)) {
+      return 'from must not be after to';
+    }
+
+    if (input.side !== undefined && input.side !== 'over' && input.side !== 'under') {
+      return 'side must be "over" or "under"';
+    }
+
+    if (input.staking !== undefined) {
+      return this.validateStaking(input.staking);
+    }
+
+    return null;
+  }
+
+  /**
+   * Replay a rule over every finished match in order of detection, placing one bet per match and line
+   * the first time the rule fires - the same evaluation and odds range gate the live tracker uses
+   */
+  run(rule: Partial<DetectionRule>, input: BacktestRequest): {
+    rule: Partial<DetectionRule>;
+    leagueIds: number[];
+    side: BetSide;
+    strategy: PaperStrategy;
+    matchesReplayed: number;
+    betCount: number;
+    skipped: number;
+    wins: number;
+    hitRate: number;
+    avgOdds: number;
+    totalStaked: number;
+    profit: number;
+    roi: number;
+    startingBankroll: number;
+    finalBankroll: number;
+    maxDrawdown: number;
+    maxDrawdownPercent: number;
+    longestLosingStreak: number;
+    bets: BacktestBet[];
+  } {
+    const side: BetSide = input.side || 'over';
+    const strategy: PaperStrategy = input.staking?.strategy || 'flat';
+    const staking: StakingSettings = {
+      startingBankroll: input.staking?.startingBankroll ?? config.paperTrading.startingBankroll,
+      flatStake: input.staking?.flatStake ?? config.paperTrading.flatStake,
+      stakePercent: input.staking?.stakePercent ?? config.paperTrading.stakePercent,
+      kellyFraction: input.staking?.kellyFraction ?? config.paperTrading.kellyFraction,
+      kellyMinSample: input.staking?.kellyMinSample ?? config.paperTrading.kellyMinSample,
+    };
+
+    // Explicit leagues replace the rule's own league condition
+    const evalRule = (input.leagueIds?.length ? { ...rule, league_id: null } : rule) as DetectionRule;
+    const leagueIds = input.leagueIds?.length
+      ? input.leagueIds
+      : rule.league_id != null ? [rule.league_id] : config.targetLeagues;
+
+    const matches = this.getFinishedMatches(leagueIds, input.from, input.to);
+    const snapshotStmt = db.prepare(`
+      SELECT handicap, over_odds, under_odds, score, match_minute FROM odds_snapshots
+      WHERE match_id = ? AND handicap IS NOT NULL
+      ORDER BY id ASC
+    `);
+    const historyStmt = db.prepare(`
+      SELECT handicap, odds_value as over_odds, NULL as under_odds, NULL as score, match_minute FROM odds_history
+      WHERE match_id = ? AND handicap IS NOT NULL
+      ORDER BY id ASC
+    `);
+
+    const bets: BacktestBet[] = [];
+    const outcomesByLine = new Map<string, SettlementOutcome[]>(); // Walk-forward hit rate for Kelly
+    let bankroll = staking.startingBankroll;
+    let peak = bankroll;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+    let losingStreak = 0;
+    let longestLosingStreak = 0;
+    let skipped = 0;
+
+    for (const match of matches) {
+      let timeline = snapshotStmt.all(match.match_id) as TimelineRow[];
+      if (timeline.length === 0) {
+        timeline = historyStmt.all(match.match_id) as TimelineRow[];
+      }
+
+      // The timeline holds readings of the total market of the league's sport
+      const totalMarket = config.getTotalMarket(match.league_id);
+      const betLines = new Set<number>();
+      for (const row of timeline) {
+        if (betLines.has(row.handicap)) continue;
+
+        const context: RuleContext = {
+          leagueId: match.league_id,
+          market: totalMarket,
+          handicap: row.handicap,
+          score: row.score || '',
+          minute: row.match_minute,
+          overOdds: row.over_odds,
+          underOdds: row.under_odds,
+          prices: { over: row.over_odds, under: row.under_odds },
+        };
+        if (!rulesService.evaluate(evalRule, context) || !rulesService.isWithinOddsRange(context)) continue;
+
+        const odds = side === 'over' ? row.over_odds : row.under_odds;
+        if (!odds || odds <= 1) continue;
+        betLines.add(row.handicap);
+
+        const lineKey = `${match.league_id}:${row.handicap}`;
+        const history = outcomesByLine.get(lineKey) || [];
+        const hitRate = history.length >= staking.kellyMinSample ? hitRateOf(history) : null;
+        const stake = round2(Math.min(paperTradingService.calculateStake(strategy, bankroll, odds, hitRate, staking), bankroll));
+
+        const finalScore = { home: match.final_score_home, away: match.final_score_away };
+        const settlement = settleTotalLine(config.getLeagueSport(match.league_id), row.handicap, side, finalScore, odds);
+        if (!settlement) continue;
+        history.push(settlement.outcome);
+        outcomesByLine.set(lineKey, history);
+
+        if (stake <= 0) {
+          skipped++;
+          continue;
+        }
+
+        const profit = round2(stake * settlement.payoutMultiplier - stake);
+        bankroll = round2(bankroll + profit);
+
+        peak = Math.max(peak, bankroll);
+        maxDrawdown = Math.max(maxDrawdown, peak - bankroll);
+        maxDrawdownPercent = Math.max(maxDrawdownPercent, peak > 0 ? ((peak - bankroll) / peak) * 100 : 0);
+
+        // Pushes neither extend nor break a losing streak
+        if (settlement.outcome === 'loss' || settlement.outcome === 'half_loss') {
+          losingStreak++;
+          longestLosingStreak = Math.max(longestLosingStreak, losingStreak);
+        } else if (settlement.outcome !== 'push') {
+          losingStreak = 0;
+        }
+
+        bets.push({
+          matchId: match.match_id,
+          leagueId: match.league_id,
+          homeTeam: match.home_team,
+          awayTeam: match.away_team,
+          detectionTime: match.detection_time,
+          goalLine: row.handicap,
+          minute: row.match_minute,
+          score: row.score,
+          odds,
+          stake,
+          finalScore: `${match.final_score_home}-${match.final_score_away}`,
+          outcome: settlement.outcome,
+          profit,
+          bankroll,
+        });
+      }
+    }
+
+    // Counted per bet like summarizeBets, so it compares with the stats endpoints whatever the staking
+    const hitRate = hitRateOf(bets.map((bet) => bet.outcome));
+    const totalStaked = bets.reduce((sum, bet) => sum + bet.stake, 0);
+    const profit = round2(bankroll - staking.startingBankroll);
+
+    return {
+      rule,
+      leagueIds,
+      side,
+      strategy,
+      matchesReplayed: matches.length,
+      betCount: bets.length,
+      skipped,
+      wins: bets.reduce((sum, bet) => sum + WIN_SHARE[bet.outcome], 0),
+      hitRate: hitRate !== null ? Math.round(hitRate * 1000) / 10 : 0,
+      avgOdds: bets.length > 0 ? round2(bets.reduce((sum, bet) => sum + bet.odds, 0) / bets.length) : 0,
+      totalStaked: round2(totalStaked),
+      profit,
+      roi: totalStaked > 0 ? Math.round((profit / totalStaked) * 1000) / 10 : 0,
+      startingBankroll: staking.startingBankroll,
+      finalBankroll: bankroll,
+      maxDrawdown: round2(maxDrawdown),
+      maxDrawdownPercent: Math.round(maxDrawdownPercent * 10) / 10,
+      longestLosingStreak,
+      bets,
+    };
+  }
+
+  private validateStaking(staking: BacktestRequest['staking']): string | null {
+    if (typeof staking !== 'object' || staking === null || Array.isArray(staking)) {
+      return 'staking must be an object';
+    }
+
+    const unknown = Object.keys(staking).find((key) => !STAKING_KEYS.includes(key));
+    if (unknown) {
+      return `Unknown staking setting: ${unknown}`;
+    }
+
+    if (staking.strategy !== undefined && !STRATEGIES.includes(staking.strategy)) {
+      return `staking.strategy must be one of ${STRATEGIES.join(', ')}`;
+    }
+
+    for (const key of ['startingBankroll', 'flatStake', 'stakePercent', 'kellyFraction'] as const) {
+      const value = staking[key];
+      if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+        return `staking.${key} must be a positive number`;
+      }
+    }
+
+    if (staking.stakePercent !== undefined && staking.stakePercent > 100) {
+      return 'staking.stakePercent must be at most 100';
+    }
+
+    if (staking.kellyFraction !== undefined && staking.kellyFraction > 1) {
+      return 'staking.kellyFraction must be at most 1';
+    }
+
+    const minSample = staking.kellyMinSample;
+    if (minSample !== undefined && (typeof minSample !== 'number' || !Number.isInteger(minSample) || minSample < 0)) {
+      return 'staking.kellyMinSample must be a non-negative integer';
+    }
+
+    return null;
+  }
+
+  private getFinishedMatches(leagueIds: number[], from?: string, to?: string): Array<{
+    match_id: string;
+    league_id: number;
+    home_team: string;
+    away_team: string;
+    detection_time: string;
+    final_score_home: number;
+    final_score_away: number;
+  }> {
+    if (leagueIds.length === 0) return [];
+
+    let query = `
+      SELECT match_id, league_id, home_team, away_team, detection_time, final_score_home, final_score_away
+      FROM matches
+      WHERE status = 'finished'
+        AND final_score_home IS NOT NULL
+        AND final_score_away IS NOT NULL
+        AND league_id IN (${leagueIds.map(() => '?').join(', ')})
+    `;
+    const params: any[] = [...leagueIds];
+
+    if (from) {
+      query += ' AND detection_time >= ?';
+      params.push(from);
+    }
+
+    if (to) {
+      query += ' AND detection_time <= ?';
+      params.push(to);
+    }
+
+    query += ' ORDER BY detection_time ASC';
+
+    return db.prepare(query).all(...params) as any[];
+  }
+}
+
+export const backtestService = new BacktestService();
+export default backtestService;
@@ -2,19 +2,66 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import { config } from '../config';
 import db from '../config/database';
 import {
-  BetsAPIResponse,
   BetsAPIMatch,
   BetsAPIOddsSummary,
   BetsAPIResult,
   Bet365RawItem,
   Bet365RawInplayResponse,
   Bet365ParsedMatch,
+  InplayMatch,
+  GoalLineResult,
+  LiveStats,
+  BookmakerGoalLine,
+  MarketReading,
+  ApiQuotaUsage,
+  ApiError,
+  ApiResult,
+  CircuitBreakerStatus,
+  RequestPriority,
 } from '../models/types';
+import { parseGoalLine } from '../utils/settlement';
+import { extractMarket, GOAL_LINE_MARKET } from '../utils/markets';
+import { UNKNOWN_TEAM, formatTeamName, splitEventName } from '../utils/team';
+import { RateLimiter } from '../utils/rate-limiter';
+import { CircuitBreaker } from '../utils/circuit-breaker';
+import { leaguesService } from './leagues.service';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    priority?: RequestPriority; // Rate limiter queue, defaults to live
+  }
+}
+
+/**
+ * Describe a failed request - network, timeout, 5xx and 429 failures are worth retrying
+ */
+function toApiError(error: unknown): ApiError {
+  if (!axios.isAxiosError(error)) {
+    return { kind: 'client', status: null, message: (error as Error)?.message || String(error), retryable: false };
+  }
+
+  const status = error.response?.status ?? null;
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return { kind: 'timeout', status, message: error.message, retryable: true };
+  }
+  if (status === null) {
+    return { kind: 'network', status, message: error.message, retryable: true };
+  }
+  if (status === 429) {
+    return { kind: 'rate_limited', status, message: error.message, retryable: true };
+  }
+  if (status >= 500) {
+    return { kind: 'server', status, message: error.message, retryable: true };
+  }
+  return { kind: 'client', status, message: error.message, retryable: false };
+}
 
 class BetsAPIService {
   private client: AxiosInstance;
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
   private cacheTTL = 10000; // 10 seconds cache
+  private limiter = new RateLimiter(config.betsapi.rateLimit);
+  private breaker = new CircuitBreaker('BetsAPI', config.betsapi.circuitBreaker);
 
   constructor() {
     this.client = axios.create({
@@ -28,6 +75,7 @@ class BetsAPIService {
     // Add response interceptor for logging
     this.client.interceptors.response.use(
       (response) => {
+        this.limiter.updateFromHeaders(response.headers, response.status);
         this.logApiCall(
           response.config.url || '',
           response.status,
@@ -36,6 +84,7 @@ class BetsAPIService {
         return response;
       },
       (error: AxiosError) => {
+        this.limiter.updateFromHeaders(error.response?.headers, error.response?.status);
         this.logApiCall(
           error.config?.url || '',
           error.response?.status || 0,
@@ -51,6 +100,82 @@ class BetsAPIService {
       (config as any).startTime = Date.now();
       return config;
     });
+
+    // Wait for the rate limiter - added last so it runs before the timing interceptor
+    this.client.interceptors.request.use(async (config) => {
+      await this.limiter.acquire(config.priority ?? 'live');
+      return config;
+    });
+  }
+
+  /**
+   * Get the request budget usage of the rate limiter
+   */
+  getQuotaUsage(): ApiQuotaUsage {
+    return this.limiter.getUsage();
+  }
+
+  /**
+   * Whether the API is considered down - polling should wait until the circuit cools down
+   */
+  isCircuitOpen(): boolean {
+    return this.breaker.isOpen();
+  }
+
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
+  }
+
+  /**
+   * GET a BetsAPI endpoint, retrying retryable failures with jittered exponential backoff
+   * Network, timeout and 5xx failures count towards the circuit breaker; while it is open no request is sent
+   */
+  private async request<T>(
+    url: string,
+    params: Record<string, any>,
+    priority: RequestPriority = 'live'
+  ): Promise<ApiResult<T>> {
+    const { retries, baseDelayMs, maxDelayMs } = config.betsapi.retry;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.breaker.canRequest()) {
+        return {
+          ok: false,
+          error: { kind: 'circuit_open', status: null, message: 'BetsAPI circuit is open', retryable: false },
+        };
+      }
+
+      let error: ApiError;
+      try {
+        const response = await this.client.get<{ success: number; results: T; error?: string }>(url, { params, priority });
+        this.breaker.recordSuccess();
+
+        if (response.data.success === 1) {
+          return { ok: true, data: response.data.results };
+        }
+        return {
+          ok: false,
+          error: { kind: 'api', status: response.status, message: response.data.error || 'success = 0', retryable: false },
+        };
+      } catch (e) {
+        error = toApiError(e);
+        // 4xx and 429 responses still show the API is up
+        if (error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server') {
+          this.breaker.recordFailure();
+        } else {
+          this.breaker.recordSuccess();
+        }
+      }
+
+      if (!error.retryable || attempt >= retries) {
+        return { ok: false, error };
+      }
+
+      // Full jitter: anywhere up to the doubled delay, so clients don't retry in lockstep
+      const delay = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+      console.warn(`[BetsAPI] ${url} failed (${error.kind}${error.status ? ` ${error.status}` : ''}), retry ${attempt + 1}/${retries} in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
   }
 
   private logApiCall(
@@ -86,86 +211,75 @@ class BetsAPIService {
    * Get live matches filtered by league
    * Uses /v3/events/inplay endpoint from Soccer API
    */
-  async getInplayMatches(leagueId: number): Promise<BetsAPIMatch[]> {
+  async getInplayMatches(leagueId: number): Promise<ApiResult<BetsAPIMatch[]>> {
     const cacheKey = `inplay_${leagueId}`;
     const cached = this.getCached<BetsAPIMatch[]>(cacheKey);
-    if (cached) return cached;
+    if (cached) return { ok: true, data: cached };
 
-    try {
-      const response = await this.client.get<BetsAPIResponse<BetsAPIMatch>>(
-        '/v3/events/inplay',
-        {
-          params: {
-            sport_id: 1, // Soccer
-            league_id: leagueId,
-          },
-        }
-      );
-
-      const matches = response.data.results || [];
-      this.setCache(cacheKey, matches);
-      return matches;
-    } catch (error) {
-      console.error(`Error fetching inplay matches for league ${leagueId}:`, error);
-      return [];
+    const result = await this.request<BetsAPIMatch[]>('/v3/events/inplay', {
+      sport_id: config.getLeagueSport(leagueId),
+      league_id: leagueId,
+    });
+    if (!result.ok) {
+      console.error(`Error fetching inplay matches for league ${leagueId}: ${result.error.message}`);
+      return result;
     }
+
+    const matches = result.data || [];
+    this.setCache(cacheKey, matches);
+    return { ok: true, data: matches };
   }
 
   /**
    * Get all live matches for target leagues (legacy method using inplay_filter)
+   * Fails as a whole when any league's request fails
    */
-  async getAllInplayMatches(): Promise<BetsAPIMatch[]> {
+  async getAllInplayMatches(): Promise<ApiResult<BetsAPIMatch[]>> {
     const allMatches: BetsAPIMatch[] = [];
 
     for (const leagueId of config.targetLeagues) {
       const matches = await this.getInplayMatches(leagueId);
-      allMatches.push(...matches);
+      if (!matches.ok) return matches;
+      allMatches.push(...matches.data);
     }
 
-    return allMatches;
+    return { ok: true, data: allMatches };
   }
 
   /**
-   * Get all live soccer matches from the API
+   * Get all live matches of the target leagues' sports from the API
    * Uses /v3/events/inplay endpoint - returns structured match data
    */
-  async getRawBet365Inplay(): Promise<Bet365RawItem[]> {
+  async getRawBet365Inplay(): Promise<ApiResult<Bet365RawItem[]>> {
     const cacheKey = 'raw_bet365_inplay';
     const cached = this.getCached<Bet365RawItem[]>(cacheKey);
-    if (cached) return cached;
+    if (cached) return { ok: true, data: cached };
 
-    try {
-      const response = await this.client.get<BetsAPIResponse<BetsAPIMatch>>(
-        '/v3/events/inplay',
-        {
-          params: {
-            sport_id: 1, // Soccer
-          },
-        }
-      );
-
-      // Convert BetsAPIMatch to Bet365RawItem format for compatibility
-      const matches = response.data.results || [];
-      const items: Bet365RawItem[] = matches.map((match) => ({
-        type: 'EV',
-        ID: match.id,
-        NA: `${match.home.name} v ${match.away.name}`,
-        CT: match.league.name,
-        SS: match.ss,
-        TU: match.timer?.tm?.toString(),
-        FI: match.bet365_id,
-        league_id: match.league.id,
-        home: match.home,
-        away: match.away,
-      }));
-
-      this.setCache(cacheKey, items);
-      console.log(`[BetsAPI] Inplay returned ${items.length} matches`);
-      return items;
-    } catch (error) {
-      console.error('Error fetching inplay matches:', error);
-      return [];
+    const events = await this.getInplayEvents();
+    if (!events.ok) {
+      console.error(`Error fetching inplay matches: ${events.error.message}`);
+      return events;
     }
+
+    // Convert BetsAPIMatch to Bet365RawItem format for compatibility
+    const items: Bet365RawItem[] = events.data.map((match) => ({
+      type: 'EV',
+      ID: match.id,
+      NA: `${match.home.name} v ${match.away.name}`,
+      CT: match.league.name,
+      SS: match.ss,
+      TU: match.timer?.tm?.toString(),
+      TS: match.timer?.ts?.toString(),
+      TT: match.timer?.tt,
+      FI: match.bet365_id,
+      league_id: match.league.id,
+      home: match.home,
+      away: match.away,
+    }));
+
+    this.setCache(cacheKey, items);
+    console.log(`[BetsAPI] Inplay returned ${items.length} matches`);
+    return { ok: true, data: items };
   }
 
   /**
@@ -205,23 +319,12 @@ class BetsAPIService {
       const eventId = item.ID;
       if (matchesMap.has(eventId)) continue;
 
-      // Get team names from the item
-      const home = (item as any).home;
-      const away = (item as any).away;
-
-      let homeTeam = 'Unknown';
-      let awayTeam = 'Unknown';
-
-      if (home && away) {
-        homeTeam = home.name || 'Unknown';
-        awayTeam = away.name || 'Unknown';
-      } else if (item.NA) {
-        // Parse from match name
-        const teams = item.NA.split(/\s+(?:v|vs|-)(?:\s+|\s*)/i);
-        if (teams.length >= 2) {
-          homeTeam = teams[0].trim();
-          awayTeam = teams[1].trim();
-        }
+      // Team names from the Soccer API teams, else parsed from the event name
+      const teams = item.home?.name && item.away?.name
+        ? { home: formatTeamName(item.home.name), away: formatTeamName(item.away.name) }
+        : splitEventName(item.NA);
+      if (!teams) {
+        console.warn(`[Parser] Could not read the teams of event ${eventId} from "${item.NA ?? ''}"`);
       }
 
       matchesMap.set(eventId, {
@@ -229,8 +332,10 @@ class BetsAPIService {
         bet365Id: item.FI || item.ID,
         leagueName: matchedLeague.name,
         leagueId: matchedLeague.id,
-        homeTeam,
-        awayTeam,
+        homeTeam: teams?.home || UNKNOWN_TEAM,
+        awayTeam: teams?.away || UNKNOWN_TEAM,
+        homeTeamApiId: item.home?.id || null,
+        awayTeamApiId: item.away?.id || null,
         score: item.SS,
         minute: item.TU,
       });
@@ -245,71 +350,45 @@ class BetsAPIService {
    * Get all live matches from target leagues using raw bet365 data
    * This is the new method that parses raw bet365 format
    */
-  async getTargetLeagueMatches(): Promise<Bet365ParsedMatch[]> {
+  async getTargetLeagueMatches(): Promise<ApiResult<Bet365ParsedMatch[]>> {
     const rawData = await this.getRawBet365Inplay();
-    return this.parseRawBet365Data(rawData);
+    return rawData.ok ? { ok: true, data: this.parseRawBet365Data(rawData.data) } : rawData;
   }
 
   /**
    * Get odds summary for a specific event using our_event_id
    * This returns odds including Asian Goal Line (1_3 market)
    */
-  async getOddsSummary(ourEventId: string): Promise<any | null> {
+  async getOddsSummary(ourEventId: string): Promise<ApiResult<any>> {
     const cacheKey = `odds_${ourEventId}`;
     const cached = this.getCached<any>(cacheKey);
-    if (cached) return cached;
+    if (cached) return { ok: true, data: cached };
 
-    try {
-      const response = await this.client.get<{ success: number; results: any }>(
-        '/v2/event/odds/summary',
-        {
-          params: {
-            event_id: ourEventId,
-          },
-        }
-      );
-
-      if (response.data.success === 1) {
-        const oddsSummary = response.data.results;
-        this.setCache(cacheKey, oddsSummary);
-        return oddsSummary;
+    const result = await this.request<any>('/v2/event/odds/summary', { event_id: ourEventId });
+    if (!result.ok) {
+      if (result.error.kind !== 'api') {
+        console.error(`Error fetching odds summary for event ${ourEventId}: ${result.error.message}`);
       }
-      return null;
-    } catch (error) {
-      console.error(`Error fetching odds summary for event ${ourEventId}:`, error);
-      return null;
+      return result;
     }
+
+    this.setCache(cacheKey, result.data);
+    return result;
   }
 
   /**
    * Get bet365 prematch odds for Asian total goals
    * This is an alternative method when odds/summary doesn't work
    */
-  async getBet365Odds(bet365EventId: string): Promise<any | null> {
+  async getBet365Odds(bet365EventId: string): Promise<ApiResult<any>> {
     const cacheKey = `bet365_odds_${bet365EventId}`;
     const cached = this.getCached<any>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const response = await this.client.get<{ success: number; results: any }>(
-        '/v1/bet365/event',
-        {
-          params: {
-            FI: bet365EventId,
-          },
-        }
-      );
+    if (cached) return { ok: true, data: cached };
 
-      if (response.data.success === 1) {
-        const oddsData = response.data.results;
-        this.setCache(cacheKey, oddsData);
-        return oddsData;
-      }
-      return null;
-    } catch (error) {
-      // Don't log error for this alternative method - it's expected to fail sometimes
-      return null;
-    }
+    // Don't log errors for this alternative method - it's expected to fail sometimes
+    const result = await this.request<any>('/v1/bet365/event', { FI: bet365EventId });
+    if (result.ok) this.setCache(cacheKey, result.data);
+    return result;
   }
 
   /**
@@ -354,209 +433,282 @@ class BetsAPIService {
 
   /**
    * Get match result/details
-   * Uses /v1/event/view endpoint from Soccer API
+   * Uses /v1/event/view endpoint from Soccer API - data is null when the API doesn't know the event
    */
-  async getMatchResult(eventId: string): Promise<BetsAPIResult | null> {
-    try {
-      const response = await this.client.get<{ success: number; results: BetsAPIResult[] }>(
-        '/v1/event/view',
-        {
-          params: {
-            event_id: eventId,
-          },
-        }
-      );
-
-      if (response.data.success === 1 && response.data.results?.length) {
-        return response.data.results[0];
+  async getMatchResult(eventId: string, priority: RequestPriority = 'live'): Promise<ApiResult<BetsAPIResult | null>> {
+    const result = await this.request<BetsAPIResult[]>('/v1/event/view', { event_id: eventId }, priority);
+    if (!result.ok) {
+      if (result.error.kind !== 'api') {
+        console.error(`Error fetching result for event ${eventId}: ${result.error.message}`);
       }
-      return null;
-    } catch (error) {
-      console.error(`Error fetching result for event ${eventId}:`, error);
-      return null;
+      return result;
     }
+
+    return { ok: true, data: result.data?.[0] ?? null };
   }
 
   /**
    * Extract Asian Goal Line from odds summary
-   * The 1_3 market is Over/Under Total Goals (Asian Goal Line)
-   * Structure: results.Bet365.odds.end['1_3'] = { handicap, over_od, under_od }
+   * The 1_3 market is Over/Under Total Goals (Asian Goal Line) - read with the generic market extractor
+   * Structure: results.<Bookmaker>.odds.end['1_3'] = { handicap, over_od, under_od }
    */
-  extractAsianGoalLine(oddsSummary: any): {
-    handicap: number;
-    overOdds: string;
-    underOdds: string;
-    score: string;
-  } | null {
+  extractAsianGoalLine(oddsSummary: any, bookmaker = 'Bet365', market = GOAL_LINE_MARKET): GoalLineResult | null {
     try {
-      const bet365 = oddsSummary?.Bet365;
-      if (!bet365?.odds) return null;
-
-      // Get the latest odds (from 'end' which has most recent data)
-      const latestOdds = bet365.odds.end?.['1_3'] || bet365.odds.kickoff?.['1_3'] || bet365.odds.start?.['1_3'];
+      const reading = extractMarket(oddsSummary, market, bookmaker);
+      if (!reading || reading.handicap === null) return null;
 
-      if (latestOdds && latestOdds.handicap) {
-        return {
-          handicap: parseFloat(latestOdds.handicap),
-          overOdds: latestOdds.over_od || 'N/A',
-          underOdds: latestOdds.under_od || 'N/A',
-          score: latestOdds.ss || 'N/A',
-        };
-      }
-
-      return null;
+      return {
+        handicap: reading.handicap,
+        overOdds: reading.prices.over || 'N/A',
+        underOdds: reading.prices.under || 'N/A',
+        score: reading.score,
+      };
     } catch (error) {
       console.error('Error extracting Asian Goal Line:', error);
       return null;
     }
   }
 
+  /**
+   * Extract the total line of every bookmaker in the odds summary
+   */
+  extractBookmakerGoalLines(oddsSummary: any, market = GOAL_LINE_MARKET): BookmakerGoalLine[] {
+    const lines: BookmakerGoalLine[] = [];
+
+    for (const bookmaker of Object.keys(oddsSummary || {})) {
+      const goalLine = this.extractAsianGoalLine(oddsSummary, bookmaker, market);
+      if (goalLine) {
+        lines.push({
+          bookmaker,
+          handicap: goalLine.handicap,
+          overOdds: goalLine.overOdds,
+          underOdds: goalLine.underOdds,
+        });
+      }
+    }
+
+    return lines;
+  }
+
   /**
    * Get Asian Goal Line data for a match
    * Uses our_event_id from inplay_filter response
    * Returns the current goal line value - target checking is done in tracker service per league
+   * Other sports pass their own total line market, e.g. 18_3 for basketball total points
+   * data is null when the event has no odds for the market
    */
   async checkAsianGoalLine(
-    ourEventId: string
-  ): Promise<{
-    handicap: number;
-    overOdds: string;
-    underOdds: string;
-    score: string;
-  } | null> {
-    const oddsSummary = await this.getOddsSummary(ourEventId);
+    ourEventId: string,
+    market = GOAL_LINE_MARKET
+  ): Promise<ApiResult<GoalLineResult | null>> {
+    const summary = await this.getOddsSummary(ourEventId);
+    const oddsSummary = summary.ok ? summary.data : null;
     if (!oddsSummary) {
       console.log(`[BetsAPI] No odds summary for event ${ourEventId}`);
-      return null;
+      // The API answering without odds is not a failure - the event simply has none yet
+      return summary.ok || summary.error.kind === 'api' ? { ok: true, data: null } : summary;
     }
 
-    const goalLine = this.extractAsianGoalLine(oddsSummary);
+    const goalLine = this.extractAsianGoalLine(oddsSummary, 'Bet365', market);
     if (!goalLine) {
       // Log available markets for debugging
       const bet365 = oddsSummary?.Bet365;
       if (bet365?.odds) {
         const availableMarkets = Object.keys(bet365.odds.end || bet365.odds.kickoff || bet365.odds.start || {});
-        console.log(`[BetsAPI] No 1_3 market for event ${ourEventId}. Available markets: ${availableMarkets.join(', ')}`);
+        console.log(`[BetsAPI] No ${market} market for event ${ourEventId}. Available markets: ${availableMarkets.join(', ')}`);
       } else {
         console.log(`[BetsAPI] No Bet365 odds data for event ${ourEventId}`);
       }
-      return null;
+      return { ok: true, data: null };
     }
 
     return {
-      handicap: goalLine.handicap,
-      overOdds: goalLine.overOdds,
-      underOdds: goalLine.underOdds,
-      score: goalLine.score,
+      ok: true,
+      data: {
+        handicap: goalLine.handicap,
+        overOdds: goalLine.overOdds,
+        underOdds: goalLine.underOdds,
+        score: goalLine.score,
+        bookmakers: this.extractBookmakerGoalLines(oddsSummary, market),
+      },
+    };
+  }
+
+  /**
+   * Read the given markets from a match's Bet365 odds summary
+   * The summary is cached, so calling this right after checkAsianGoalLine costs no extra request
+   */
+  async checkMarkets(ourEventId: string, markets: string[]): Promise<ApiResult<MarketReading[]>> {
+    const summary = await this.getOddsSummary(ourEventId);
+    if (!summary.ok) {
+      return summary.error.kind === 'api' ? { ok: true, data: [] } : summary;
+    }
+
+    return {
+      ok: true,
+      data: markets
+        .map((market) => extractMarket(summary.data, market))
+        .filter((reading): reading is MarketReading => reading !== null),
     };
   }
 
   /**
    * Get live matches from inplay with event IDs for odds lookup
-   * Uses /v3/events/inplay endpoint from Soccer API
+   * Uses /v3/events/inplay endpoint from Soccer API - a failed fetch is returned as an error, not as no matches
    */
-  async getInplayFilterMatches(): Promise<Array<{
-    id: string;
-    ourEventId: string;
-    bet365Id: string;
-    leagueId: number;
-    leagueName: string;
-    homeTeam: string;
-    awayTeam: string;
-    score: string;
-  }>> {
+  async getInplayFilterMatches(): Promise<ApiResult<InplayMatch[]>> {
     const cacheKey = 'inplay_filter_matches';
-    const cached = this.getCached<any[]>(cacheKey);
-    if (cached) return cached;
+    const cached = this.getCached<InplayMatch[]>(cacheKey);
+    if (cached) return { ok: true, data: cached };
 
-    try {
-      const response = await this.client.get<BetsAPIResponse<BetsAPIMatch>>(
-        '/v3/events/inplay',
-        {
-          params: {
-            sport_id: 1, // Soccer
-          },
-        }
-      );
+    const events = await this.getInplayEvents();
+    if (!events.ok) {
+      console.error(`Error fetching inplay matches (${events.error.kind}): ${events.error.message}`);
+      return events;
+    }
 
-      const results = response.data.results || [];
-      const targetMatches: any[] = [];
+    leaguesService.recordInplayEvents(events.data);
+    const targetMatches: InplayMatch[] = [];
 
-      for (const match of results) {
-        const leagueId = parseInt(match.league?.id || '0', 10);
-        const leagueName = match.league?.name || '';
+    for (const match of events.data) {
+      const leagueId = parseInt(match.league?.id || '0', 10);
+      const leagueName = match.league?.name || '';
 
-        // Check if this league matches our target leagues by ID
-        if (config.targetLeagues.includes(leagueId)) {
+      // Check if this league matches our target leagues by ID
+      if (config.targetLeagues.includes(leagueId)) {
+        targetMatches.push({
+          id: match.id,
+          ourEventId: match.id, // In Soccer API, the event ID is used for odds lookup
+          bet365Id: match.bet365_id || match.id,
+          sportId: config.getLeagueSport(leagueId),
+          leagueId: leagueId,
+          leagueName: config.leagueNames[leagueId] || leagueName,
+          homeTeam: formatTeamName(match.home?.name) || UNKNOWN_TEAM,
+          awayTeam: formatTeamName(match.away?.name) || UNKNOWN_TEAM,
+          homeTeamApiId: match.home?.id || null,
+          awayTeamApiId: match.away?.id || null,
+          score: match.ss || '0-0',
+          ...this.extractTimer(match),
+          stats: this.extractLiveStats(match.stats),
+        });
+        continue;
+      }
+
+      // Fall back to pattern matching for league names
+      for (const pattern of config.bet365LeaguePatterns) {
+        if (pattern.pattern.test(leagueName)) {
           targetMatches.push({
             id: match.id,
-            ourEventId: match.id, // In Soccer API, the event ID is used for odds lookup
+            ourEventId: match.id,
             bet365Id: match.bet365_id || match.id,
-            leagueId: leagueId,
-            leagueName: config.leagueNames[leagueId] || leagueName,
-            homeTeam: match.home?.name || 'Unknown',
-            awayTeam: match.away?.name || 'Unknown',
+            sportId: config.getLeagueSport(pattern.leagueId),
+            leagueId: pattern.leagueId,
+            leagueName: pattern.name,
+            homeTeam: formatTeamName(match.home?.name) || UNKNOWN_TEAM,
+            awayTeam: formatTeamName(match.away?.name) || UNKNOWN_TEAM,
+            homeTeamApiId: match.home?.id || null,
+            awayTeamApiId: match.away?.id || null,
             score: match.ss || '0-0',
+            ...this.extractTimer(match),
+            stats: this.extractLiveStats(match.stats),
           });
-          continue;
-        }
-
-        // Fall back to pattern matching for league names
-        for (const pattern of config.bet365LeaguePatterns) {
-          if (pattern.pattern.test(leagueName)) {
-            targetMatches.push({
-              id: match.id,
-              ourEventId: match.id,
-              bet365Id: match.bet365_id || match.id,
-              leagueId: pattern.leagueId,
-              leagueName: pattern.name,
-              homeTeam: match.home?.name || 'Unknown',
-              awayTeam: match.away?.name || 'Unknown',
-              score: match.ss || '0-0',
-            });
-            break;
-          }
+          break;
         }
       }
+    }
 
-      this.setCache(cacheKey, targetMatches);
-      console.log(`[BetsAPI] Found ${targetMatches.length} target league matches from inplay`);
-      return targetMatches;
-    } catch (error) {
-      console.error('Error fetching inplay matches:', error);
-      return [];
+    this.setCache(cacheKey, targetMatches);
+    console.log(`[BetsAPI] Found ${targetMatches.length} target league matches from inplay`);
+    return { ok: true, data: targetMatches };
+  }
+
+  /**
+   * Get the inplay events of every sport the target leagues belong to
+   * Fails as a whole when any sport's request fails - a partial feed would make that sport's matches look finished
+   */
+  private async getInplayEvents(): Promise<ApiResult<BetsAPIMatch[]>> {
+    const events: BetsAPIMatch[] = [];
+
+    for (const sportId of config.getTargetSports()) {
+      const result = await this.request<BetsAPIMatch[]>('/v3/events/inplay', { sport_id: sportId });
+      if (!result.ok) return result;
+      events.push(...(result.data || []));
     }
+
+    return { ok: true, data: events };
+  }
+
+  /**
+   * Extract the live match clock from an inplay event
+   * timer.tm is the minute, timer.ts the second and timer.tt is "1" while the clock runs
+   */
+  private extractTimer(match: BetsAPIMatch): {
+    minute: number | null;
+    second: number | null;
+    timerRunning: boolean;
+  } {
+    const minute = Number(match.timer?.tm);
+    const second = Number(match.timer?.ts);
+
+    return {
+      minute: match.timer && !isNaN(minute) ? minute : null,
+      second: match.timer && !isNaN(second) ? second : null,
+      timerRunning: match.timer?.tt === '1',
+    };
+  }
+
+  /**
+   * Extract pressure stats from a BetsAPI stats object
+   * Each stat is a [home, away] pair of numeric strings, e.g. attacks: ["45", "38"]
+   */
+  extractLiveStats(stats?: Record<string, any>): LiveStats | null {
+    if (!stats) return null;
+
+    const pair = (key: string): [number | null, number | null] => {
+      const values = Array.isArray(stats[key]) ? stats[key] : [];
+      const home = parseInt(values[0], 10);
+      const away = parseInt(values[1], 10);
+      return [isNaN(home) ? null : home, isNaN(away) ? null : away];
+    };
+
+    const [homeAttacks, awayAttacks] = pair('attacks');
+    const [homeDangerous, awayDangerous] = pair('dangerous_attacks');
+    const [homeShotsOn, awayShotsOn] = pair('on_target');
+    const [homeShotsOff, awayShotsOff] = pair('off_target');
+    const [homePossession, awayPossession] = pair('possession_rt');
+    const [homeCorners, awayCorners] = pair('corners');
+
+    const liveStats: LiveStats = {
+      home_attacks: homeAttacks,
+      away_attacks: awayAttacks,
+      home_dangerous_attacks: homeDangerous,
+      away_dangerous_attacks: awayDangerous,
+      home_shots_on: homeShotsOn,
+      away_shots_on: awayShotsOn,
+      home_shots_off: homeShotsOff,
+      away_shots_off: awayShotsOff,
+      home_possession: homePossession,
+      away_possession: awayPossession,
+      home_corners: homeCorners,
+      away_corners: awayCorners,
+    };
+
+    return Object.values(liveStats).some((value) => value !== null) ? liveStats : null;
   }
 
   /**
    * Get bet365 prematch odds for a specific event
    * This can be used as a fallback to get Asian Goal Line odds
    */
-  async getBet365PrematchOdds(eventId: string): Promise<any | null> {
+  async getBet365PrematchOdds(eventId: string): Promise<ApiResult<any>> {
     const cacheKey = `prematch_odds_${eventId}`;
     const cached = this.getCached<any>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const response = await this.client.get<{ success: number; results: any }>(
-        '/v3/bet365/prematch_odds',
-        {
-          params: {
-            FI: eventId,
-          },
-        }
-      );
+    if (cached) return { ok: true, data: cached };
 
-      if (response.data.success === 1) {
-        const oddsData = response.data.results;
-        this.setCache(cacheKey, oddsData);
-        return oddsData;
-      }
-      return null;
-    } catch (error) {
-      // Silently fail - this is a fallback method
-      return null;
-    }
+    // Not logged - this is a fallback method
+    const result = await this.request<any>('/v3/bet365/prematch_odds', { FI: eventId });
+    if (result.ok) this.setCache(cacheKey, result.data);
+    return result;
   }
 
   /**
@@ -578,9 +730,9 @@ class BetsAPIService {
           // Find the odds entries
           if (market.odds && Array.isArray(market.odds)) {
             for (const odd of market.odds) {
-              if (odd.handicap && odd.over_od) {
+              if (odd.handicap && odd.over_od && parseGoalLine(odd.handicap) !== null) {
                 return {
-                  handicap: parseFloat(odd.handicap),
+                  handicap: parseGoalLine(odd.handicap)!,
                   overOdds: odd.over_od,
                   underOdds: odd.under_od || 'N/A',
                 };
@@ -600,87 +752,68 @@ class BetsAPIService {
    * Get historical odds summary for a finished match
    * Returns odds at start, kickoff, and end of match
    */
-  async getHistoricalOddsSummary(eventId: string): Promise<any | null> {
-    try {
-      const response = await this.client.get<{ success: number; results: any }>(
-        '/v2/event/odds/summary',
-        {
-          params: {
-            event_id: eventId,
-          },
-        }
-      );
-
-      if (response.data.success === 1) {
-        return response.data.results;
-      }
-      return null;
-    } catch (error) {
-      // Silently fail - odds may not be available for old matches
-      return null;
-    }
+  async getHistoricalOddsSummary(eventId: string, priority: RequestPriority = 'live'): Promise<ApiResult<any>> {
+    // Not logged - odds may not be available for old matches
+    return this.request<any>('/v2/event/odds/summary', { event_id: eventId }, priority);
   }
 
   /**
    * Extract Asian Goal Line from historical odds summary
-   * Returns the starting goal line handicap from market 1_3
+   * Returns the starting line handicap from the total market (1_3 unless the league's sport
+   * uses another) and whether the league's target line was seen at start, kickoff or end
    */
-  extractHistoricalAsianGoalLine(oddsSummary: any): {
+  extractHistoricalAsianGoalLine(oddsSummary: any, targetLine: number, market: string = GOAL_LINE_MARKET): {
     handicap: number;
     overOdds: string;
     underOdds: string;
-    touched15: boolean;
+    touchedTarget: boolean;
   } | null {
     try {
       // Check Bet365 odds first
       const bet365 = oddsSummary?.Bet365;
       if (!bet365?.odds) return null;
 
-      // Check if goal line 1.5 was ever touched during the match
-      let touched15 = false;
+      // Check if the target goal line was ever touched during the match
+      let touchedTarget = false;
       let startHandicap: number | null = null;
       let startOverOdds = 'N/A';
       let startUnderOdds = 'N/A';
 
-      // Check start odds (market 1_3 = Asian Goal Line)
-      if (bet365.odds.start?.['1_3']) {
-        const startOdds = bet365.odds.start['1_3'];
+      // Check start odds
+      if (bet365.odds.start?.[market]) {
+        const startOdds = bet365.odds.start[market];
         const handicap = startOdds.handicap;
 
         if (handicap) {
-          // Handle handicap formats like "1.5,2.0" or "1.5" or "1.75"
-          const handicapValue = handicap.includes(',')
-            ? parseFloat(handicap.split(',')[0])
-            : parseFloat(handicap);
+          // Handle handicap formats like "1.5,2.0" (= 1.75) or "1.5" or "1.75"
+          const handicapValue = parseGoalLine(handicap);
 
-          if (!isNaN(handicapValue)) {
+          if (handicapValue !== null) {
             startHandicap = handicapValue;
             startOverOdds = startOdds.over_od || 'N/A';
             startUnderOdds = startOdds.under_od || 'N/A';
 
-            if (handicapValue === 1.5) {
-              touched15 = true;
+            if (handicapValue === targetLine) {
+              touchedTarget = true;
             }
           }
         }
       }
 
       // Check kickoff odds
-      if (bet365.odds.kickoff?.['1_3']) {
-        const kickoffOdds = bet365.odds.kickoff['1_3'];
+      if (bet365.odds.kickoff?.[market]) {
+        const kickoffOdds = bet365.odds.kickoff[market];
         const handicap = kickoffOdds.handicap;
 
         if (handicap) {
-          const handicapValue = handicap.includes(',')
-            ? parseFloat(handicap.split(',')[0])
-            : parseFloat(handicap.replace('+', ''));
+          const handicapValue = parseGoalLine(handicap);
 
-          if (!isNaN(handicapValue) && handicapValue === 1.5) {
-            touched15 = true;
+          if (handicapValue !== null && handicapValue === targetLine) {
+            touchedTarget = true;
           }
 
           // Use kickoff handicap if no start handicap
-          if (startHandicap === null) {
+          if (startHandicap === null && handicapValue !== null) {
             startHandicap = handicapValue;
             startOverOdds = kickoffOdds.over_od || 'N/A';
             startUnderOdds = kickoffOdds.under_od || 'N/A';
@@ -689,17 +822,15 @@ class BetsAPIService {
       }
 
       // Check end odds
-      if (bet365.odds.end?.['1_3']) {
-        const endOdds = bet365.odds.end['1_3'];
+      if (bet365.odds.end?.[market]) {
+        const endOdds = bet365.odds.end[market];
         const handicap = endOdds.handicap;
 
         if (handicap) {
-          const handicapValue = handicap.includes(',')
-            ? parseFloat(handicap.split(',')[0])
-            : parseFloat(handicap.replace('+', ''));
+          const handicapValue = parseGoalLine(handicap);
 
-          if (!isNaN(handicapValue) && handicapValue === 1.5) {
-            touched15 = true;
+          if (handicapValue !== null && handicapValue === targetLine) {
+            touchedTarget = true;
           }
         }
       }
@@ -710,7 +841,7 @@ class BetsAPIService {
         handicap: startHandicap,
         overOdds: startOverOdds,
         underOdds: startUnderOdds,
-        touched15,
+        touchedTarget,
       };
     } catch (error) {
       return null;
@@ -0,0 +1,130 @@
+import db from '../config/database';
+import { config } from '../config';
+import { BookmakerGoalLine, BookmakerOdds, OddsComparison } from '../models/types';
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+class BookmakerService {
+  /**
+   * Save every bookmaker's goal line for this poll - a row is only written when that book moved
+   */
+  saveBookmakerOdds(
+    matchId: string,
+    lines: BookmakerGoalLine[],
+    score: string,
+    minute: number | null
+  ): void {
+    const lastStmt = db.prepare(`
+      SELECT handicap, over_odds, under_odds, score FROM bookmaker_odds
+      WHERE match_id = ? AND bookmaker = ?
+      ORDER BY id DESC LIMIT 1
+    `);
+    const insertStmt = db.prepare(`
+      INSERT INTO bookmaker_odds (match_id, bookmaker, handicap, over_odds, under_odds, score, match_minute)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const line of lines) {
+      const overOdds = parseFloat(line.overOdds) || null;
+      const underOdds = parseFloat(line.underOdds) || null;
+      const last = lastStmt.get(matchId, line.bookmaker) as BookmakerOdds | undefined;
+
+      if (
+        last &&
+        last.handicap === line.handicap &&
+        (last.over_odds ?? null) === overOdds &&
+        (last.under_odds ?? null) === underOdds &&
+        last.score === score
+      ) {
+        continue; // This book hasn't moved since the previous poll
+      }
+
+      insertStmt.run(matchId, line.bookmaker, line.handicap, overOdds, underOdds, score, minute);
+    }
+  }
+
+  /**
+   * Get the latest goal line of each bookmaker for a match
+   */
+  getLatestOdds(matchId: string): BookmakerOdds[] {
+    return db.prepare(`
+      SELECT b.* FROM bookmaker_odds b
+      JOIN (
+        SELECT bookmaker, MAX(id) as id FROM bookmaker_odds WHERE match_id = ? GROUP BY bookmaker
+      ) latest ON latest.id = b.id
+      ORDER BY b.bookmaker ASC
+    `).all(matchId) as BookmakerOdds[];
+  }
+
+  /**
+   * Get the full per-bookmaker odds timeline for a match
+   */
+  getOddsTimeline(matchId: string): BookmakerOdds[] {
+    return db.prepare(
+      'SELECT * FROM bookmaker_odds WHERE match_id = ? ORDER BY id ASC'
+    ).all(matchId) as BookmakerOdds[];
+  }
+
+  /**
+   * Compare the latest prices across bookmakers
+   * Best prices are taken on the consensus line; a book is off-market when it quotes another line,
+   * or when its no-vig over probability is further than the threshold from the median book
+   */
+  compare(matchId: string): OddsComparison {
+    const latest = this.getLatestOdds(matchId);
+
+    // Consensus line: quoted by the most books, ties go to the lower line
+    const lineCounts = new Map<number, number>();
+    for (const odds of latest) {
+      lineCounts.set(odds.handicap, (lineCounts.get(odds.handicap) || 0) + 1);
+    }
+    const consensusLine = Array.from(lineCounts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0] ?? null;
+
+    const withProbability = latest.map((odds) => ({
+      ...odds,
+      overProbability: odds.over_odds && odds.under_odds
+        ? round4((1 / odds.over_odds) / (1 / odds.over_odds + 1 / odds.under_odds))
+        : null,
+    }));
+
+    const onConsensus = withProbability.filter((odds) => odds.handicap === consensusLine);
+    const probabilities = onConsensus
+      .map((odds) => odds.overProbability)
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+    const median = probabilities.length > 0
+      ? (probabilities[Math.floor((probabilities.length - 1) / 2)] + probabilities[Math.ceil((probabilities.length - 1) / 2)]) / 2
+      : null;
+
+    const best = (side: 'over_odds' | 'under_odds') => onConsensus
+      .filter((odds) => odds[side])
+      .reduce<{ bookmaker: string; odds: number } | null>(
+        (top, odds) => (!top || odds[side]! > top.odds ? { bookmaker: odds.bookmaker, odds: odds[side]! } : top),
+        null
+      );
+
+    return {
+      matchId,
+      consensusLine,
+      bestOver: best('over_odds'),
+      bestUnder: best('under_odds'),
+      bookmakers: withProbability.map((odds) => {
+        let offMarket: 'line' | 'price' | null = null;
+        if (odds.handicap !== consensusLine) {
+          offMarket = 'line';
+        } else if (
+          median !== null &&
+          odds.overProbability !== null &&
+          Math.abs(odds.overProbability - median) > config.oddsComparison.offMarketThreshold
+        ) {
+          offMarket = 'price';
+        }
+        return { ...odds, offMarket };
+      }),
+    };
+  }
+}
+
+export const bookmakerService = new BookmakerService();
+export default bookmakerService;
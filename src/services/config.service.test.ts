@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config';
+import { initializeDatabase } from '../config/database';
+import { configFileService } from './config.service';
+import { leaguesService } from './leagues.service';
+
+describe('configFileService.load', () => {
+  const filePath = path.join(os.tmpdir(), `config-service-test-${process.pid}.json`);
+  const writeConfig = (settings: any) => fs.writeFileSync(filePath, JSON.stringify(settings));
+  // Plain copy of the live settings, without the helper functions
+  const snapshot = () => JSON.parse(JSON.stringify(config));
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    initializeDatabase();
+    config.configFile.path = filePath;
+  });
+
+  afterAll(() => {
+    fs.rmSync(filePath, { force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('layers the file over the environment settings', () => {
+    writeConfig({
+      pollingInterval: 15000,
+      leagues: [{ leagueId: 50001, name: 'Test League', targetLine: 2.5, matchDuration: 10 }],
+      alerts: { streaks: { leagueLength: 3 } },
+    });
+
+    expect(configFileService.load()).toEqual([]);
+    expect(config.pollingInterval).toBe(15000);
+    expect(config.getMatchDuration(50001)).toBe(10);
+    expect(config.streaks.leagueLength).toBe(3);
+    expect(leaguesService.getLeague(50001)).toMatchObject({ name: 'Test League', config_target_line: 2.5 });
+  });
+
+  it('rejects an invalid file and keeps the live config', () => {
+    const before = snapshot();
+    writeConfig({ pollingInterval: 500, alerts: { streaks: { leagueLength: 'five' } } });
+
+    expect(configFileService.load()).toEqual([
+      'pollingInterval must be at least 1000',
+      'alerts.streaks.leagueLength must be an integer',
+    ]);
+    expect(snapshot()).toEqual(before);
+  });
+
+  it('leaves the live config and the leagues table unchanged when applying fails', () => {
+    const before = snapshot();
+    const saveLeague = leaguesService.saveLeague.bind(leaguesService);
+    jest.spyOn(leaguesService, 'saveLeague')
+      .mockImplementationOnce(saveLeague)
+      .mockImplementationOnce(() => {
+        throw new Error('disk full');
+      });
+    writeConfig({
+      pollingInterval: 20000,
+      leagues: [
+        { leagueId: 50001, name: 'Renamed League', targetLine: 3.5 },
+        { leagueId: 50002, name: 'Other League' },
+      ],
+    });
+
+    expect(configFileService.load()).toEqual(['Failed to apply config file: disk full']);
+    expect(snapshot()).toEqual(before);
+    expect(leaguesService.getLeague(50001)).toMatchObject({ name: 'Test League', config_target_line: 2.5 });
+    expect(leaguesService.getLeague(50002)).toBeUndefined();
+  });
+});
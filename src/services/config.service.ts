@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import db from '../config/database';
+import { config } from '../config';
+import { ConfigFileSettings, parseConfigFile } from '../config/file';
+import { leaguesService } from './leagues.service';
+import { trackerService } from './tracker.service';
+
+class ConfigFileService {
+  // Environment settings the file is layered over, so keys removed from the file fall back on reload
+  private baseline = structuredClone({
+    pollingInterval: config.pollingInterval,
+    statsTimezone: config.statsTimezone,
+    maxMatches: config.maxMatches,
+    matchDurations: config.matchDurations,
+    targetGoalLines: config.targetGoalLines,
+    lineMovement: config.lineMovement,
+    oddsRange: config.oddsRange,
+    model: config.model,
+    streaks: config.streaks,
+    headToHead: config.headToHead,
+  });
+
+  private loadedAt: string | null = null;
+  private watching = false;
+
+  /**
+   * Absolute path of the config file
+   */
+  getPath(): string {
+    return path.resolve(config.configFile.path);
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.getPath());
+  }
+
+  /**
+   * Read, validate and apply the config file
+   * Returns the problems found - when there are any nothing is applied and the previous settings stay in place
+   */
+  load(): string[] {
+    const filePath = this.getPath();
+    if (!this.exists()) return [`Config file not found: ${filePath}`];
+
+    const { settings, errors } = parseConfigFile(fs.readFileSync(filePath, 'utf8'));
+    if (!settings) return errors;
+
+    const leagueErrors = (settings.leagues ?? [])
+      .map((league, index) => {
+        const error = leaguesService.validateLeague(league);
+        return error ? `leagues[${index}]: ${error}` : null;
+      })
+      .filter((error): error is string => error !== null);
+    if (leagueErrors.length > 0) return leagueErrors;
+
+    try {
+      this.apply(settings);
+    } catch (error: any) {
+      return [`Failed to apply config file: ${error.message}`];
+    }
+
+    this.loadedAt = new Date().toISOString();
+    console.log(`⚙️ Config file loaded: ${filePath}`);
+    return [];
+  }
+
+  /**
+   * Reload the config file whenever it changes on disk
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    fs.watchFile(this.getPath(), { interval: 1000 }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      if (current.mtimeMs === 0) {
+        console.warn('⚠️ Config file removed, keeping the current settings');
+        return;
+      }
+
+      const errors = this.load();
+      if (errors.length > 0) {
+        console.error(`❌ Config file reload rejected, keeping the previous settings:\n  - ${errors.join('\n  - ')}`);
+      }
+    });
+  }
+
+  /**
+   * Stop watching the config file
+   */
+  unwatch(): void {
+    if (!this.watching) return;
+    fs.unwatchFile(this.getPath());
+    this.watching = false;
+  }
+
+  getStatus(): { path: string; exists: boolean; loadedAt: string | null; watching: boolean } {
+    return { path: this.getPath(), exists: this.exists(), loadedAt: this.loadedAt, watching: this.watching };
+  }
+
+  /**
+   * Layer validated settings over the environment baseline
+   * Leagues in the file are saved to the leagues table - leagues left out of the file stay tracked.
+   * The new settings are built before anything is written and the leagues are saved in one transaction,
+   * so a failure leaves both the database and the running config as they were
+   */
+  private apply(settings: ConfigFileSettings): void {
+    const base = structuredClone(this.baseline);
+    const leagues = settings.leagues ?? [];
+    const alerts = settings.alerts ?? {};
+
+    const next = {
+      pollingInterval: settings.pollingInterval ?? base.pollingInterval,
+      statsTimezone: settings.statsTimezone ?? base.statsTimezone,
+      maxMatches: settings.maxMatches ?? base.maxMatches,
+      matchDurations: base.matchDurations,
+      targetGoalLines: base.targetGoalLines,
+      lineMovement: {
+        default: { ...base.lineMovement.default, ...alerts.lineMovement?.default },
+        byLeague: { ...base.lineMovement.byLeague, ...alerts.lineMovement?.byLeague },
+      },
+      oddsRange: {
+        default: { ...base.oddsRange.default, ...alerts.oddsRange?.default },
+        byLeague: { ...base.oddsRange.byLeague, ...alerts.oddsRange?.byLeague },
+      },
+      model: { ...base.model, ...alerts.model },
+      streaks: { ...base.streaks, ...alerts.streaks },
+      headToHead: { ...base.headToHead, ...alerts.headToHead },
+    };
+    for (const league of leagues) {
+      if (league.matchDuration !== undefined) next.matchDurations[league.leagueId] = league.matchDuration;
+      if (league.targetLine !== undefined) next.targetGoalLines[league.leagueId] = league.targetLine;
+    }
+
+    if (leagues.length > 0) {
+      db.transaction(() => {
+        for (const league of leagues) leaguesService.saveLeague(league);
+      })();
+      leaguesService.loadLeagues();
+    }
+
+    const previousInterval = config.pollingInterval;
+    Object.assign(config, next);
+
+    if (config.pollingInterval !== previousInterval) {
+      trackerService.reschedule();
+    }
+  }
+}
+
+export const configFileService = new ConfigFileService();
+export default configFileService;
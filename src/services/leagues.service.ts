@@ -0,0 +1,211 @@
+import db from '../config/database';
+import { config } from '../config';
+import { BetsAPIMatch, DetectionRule, DiscoveredLeague, League, LeagueInput } from '../models/types';
+import { rulesService } from './rules.service';
+
+// Counted events are forgotten after this long - no event stays in the inplay feed that long
+const EVENT_RETENTION = '-2 days';
+
+class LeaguesService {
+  /**
+   * Load the tracked leagues from the database into the config league maps
+   * Everything that reads config.targetLeagues, leagueNames or bet365LeaguePatterns sees the change on the next poll
+   */
+  loadLeagues(): void {
+    const leagues = this.getLeagues();
+
+    config.targetLeagues = leagues.map((league) => league.league_id);
+    config.leagueNames = Object.fromEntries(leagues.map((league) => [league.league_id, league.name]));
+    config.leagueSports = Object.fromEntries(leagues.map((league) => [league.league_id, league.sport_id]));
+    config.bet365LeaguePatterns = leagues
+      .filter((league) => league.name_pattern)
+      .map((league) => ({
+        pattern: new RegExp(league.name_pattern!, 'i'),
+        leagueId: league.league_id,
+        name: league.name,
+      }));
+
+    console.log(`[Leagues] Tracking ${leagues.length} leagues: ${config.targetLeagues.join(', ')}`);
+  }
+
+  /**
+   * Get the tracked leagues
+   */
+  getLeagues(): League[] {
+    return db.prepare('SELECT * FROM leagues ORDER BY created_at ASC, league_id ASC').all() as League[];
+  }
+
+  /**
+   * Get a tracked league by ID
+   */
+  getLeague(leagueId: number): League | undefined {
+    return db.prepare('SELECT * FROM leagues WHERE league_id = ?').get(leagueId) as League | undefined;
+  }
+
+  /**
+   * Validate league input, returns an error message or null if valid
+   */
+  validateLeague(input: Partial<LeagueInput>): string | null {
+    if (typeof input.leagueId !== 'number' || !Number.isInteger(input.leagueId) || input.leagueId <= 0) {
+      return 'leagueId must be a positive integer';
+    }
+
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'League name is required';
+    }
+
+    if (input.sportId !== undefined && !config.sports[input.sportId]) {
+      return `sportId must be one of ${Object.keys(config.sports).join(', ')}`;
+    }
+
+    if (input.targetLine !== undefined && (typeof input.targetLine !== 'number' || isNaN(input.targetLine))) {
+      return 'targetLine must be a number';
+    }
+
+    if (input.namePattern !== undefined) {
+      if (typeof input.namePattern !== 'string' || !input.namePattern.trim()) {
+        return 'namePattern must be a non-empty string';
+      }
+      try {
+        new RegExp(input.namePattern, 'i');
+      } catch (e) {
+        return `namePattern is not a valid regular expression: ${input.namePattern}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Add a league to the tracked set, with an exact-line detection rule when a target line is given
+   */
+  addLeague(input: LeagueInput): { league: League; rule: DetectionRule | null } {
+    const sportId = input.sportId ?? 1;
+    const name = input.name.trim();
+
+    db.prepare(`
+      INSERT INTO leagues (league_id, name, sport_id, name_pattern) VALUES (?, ?, ?, ?)
+    `).run(input.leagueId, name, sportId, input.namePattern?.trim() ?? null);
+
+    const rule = input.targetLine !== undefined
+      ? rulesService.createRule({
+        name: `${name} ${input.targetLine}`,
+        league_id: input.leagueId,
+        market: config.getSport(sportId).totalMarket,
+        goal_line: input.targetLine,
+      })
+      : null;
+
+    this.loadLeagues();
+    console.log(`🆕 League onboarded: ${name} (${input.leagueId})`);
+
+    return { league: this.getLeague(input.leagueId)!, rule };
+  }
+
+  /**
+   * Insert or update a tracked league, moving the league's own exact-line rule to the target line
+   * A league saved without a sport or name pattern keeps the ones it has. The rule is only touched
+   * when the target line differs from the one saved last time, so rules edited or deleted through
+   * /api/rules survive config reloads that leave the line alone
+   * The config maps are not reloaded - call loadLeagues() once a batch is saved
+   */
+  saveLeague(input: LeagueInput): void {
+    const previous = this.getLeague(input.leagueId);
+    const sportId = input.sportId ?? previous?.sport_id ?? 1;
+    const name = input.name.trim();
+
+    db.prepare(`
+      INSERT INTO leagues (league_id, name, sport_id, name_pattern) VALUES (?, ?, ?, ?)
+      ON CONFLICT(league_id) DO UPDATE SET
+        name = excluded.name,
+        sport_id = excluded.sport_id,
+        name_pattern = COALESCE(excluded.name_pattern, leagues.name_pattern)
+    `).run(input.leagueId, name, sportId, input.namePattern?.trim() ?? null);
+
+    if (input.targetLine === undefined || input.targetLine === previous?.config_target_line) return;
+
+    db.prepare('UPDATE leagues SET config_target_line = ? WHERE league_id = ?').run(input.targetLine, input.leagueId);
+
+    const market = config.getSport(sportId).totalMarket;
+    const rule = rulesService.getRules({ leagueId: input.leagueId, enabled: true, market })
+      .find((r) => r.league_id === input.leagueId && r.goal_line != null);
+
+    if (!rule) {
+      rulesService.createRule({ name: `${name} ${input.targetLine}`, league_id: input.leagueId, market, goal_line: input.targetLine });
+    } else if (rule.goal_line !== input.targetLine) {
+      // Rules named by onboarding or seeding follow the line, renamed rules keep their name
+      const generatedName = `${previous?.name ?? name} ${rule.goal_line}`;
+      rulesService.updateRule(rule.id!, {
+        goal_line: input.targetLine,
+        name: rule.name === generatedName ? `${name} ${input.targetLine}` : undefined,
+      });
+    }
+  }
+
+  /**
+   * Record every league in an inplay response with first/last seen and distinct event counts
+   * Events are counted once, even when they drop out of a response and come back
+   */
+  recordInplayEvents(events: BetsAPIMatch[]): void {
+    const eventStmt = db.prepare(`
+      INSERT OR IGNORE INTO discovered_events (event_id, league_id) VALUES (?, ?)
+    `);
+    const upsertStmt = db.prepare(`
+      INSERT INTO discovered_leagues (league_id, name, sport_id, match_count)
+      VALUES (@leagueId, @name, @sportId, @newEvents)
+      ON CONFLICT(league_id) DO UPDATE SET
+        name = excluded.name,
+        sport_id = excluded.sport_id,
+        last_seen = datetime('now'),
+        match_count = discovered_leagues.match_count + excluded.match_count
+    `);
+
+    db.transaction(() => {
+      const leagues = new Map<number, { name: string; sportId: number | null; newEvents: number }>();
+      for (const event of events) {
+        const leagueId = parseInt(event.league?.id || '0', 10);
+        if (!leagueId) continue;
+
+        const league = leagues.get(leagueId) || {
+          name: event.league.name || `League ${leagueId}`,
+          sportId: parseInt(event.sport_id, 10) || null,
+          newEvents: 0,
+        };
+        league.newEvents += eventStmt.run(event.id, leagueId).changes;
+        leagues.set(leagueId, league);
+      }
+
+      for (const [leagueId, league] of leagues) {
+        upsertStmt.run({ leagueId, ...league });
+      }
+
+      db.prepare(`DELETE FROM discovered_events WHERE first_seen < datetime('now', ?)`).run(EVENT_RETENTION);
+    })();
+  }
+
+  /**
+   * Get leagues seen in the inplay feed, most recently seen first
+   */
+  getDiscoveredLeagues(options: { search?: string; untracked?: boolean } = {}): Array<DiscoveredLeague & { tracked: boolean }> {
+    let query = 'SELECT * FROM discovered_leagues WHERE 1=1';
+    const params: any[] = [];
+
+    if (options.search) {
+      query += ' AND name LIKE ?';
+      params.push(`%${options.search}%`);
+    }
+
+    if (options.untracked) {
+      query += ' AND league_id NOT IN (SELECT league_id FROM leagues)';
+    }
+
+    query += ' ORDER BY last_seen DESC, match_count DESC';
+
+    const tracked = new Set(config.targetLeagues);
+    return (db.prepare(query).all(...params) as DiscoveredLeague[])
+      .map((league) => ({ ...league, tracked: tracked.has(league.league_id) }));
+  }
+}
+
+export const leaguesService = new LeaguesService();
+export default leaguesService;
@@ -0,0 +1,170 @@
+import db from '../config/database';
+import { config } from '../config';
+import { DetectionRule, MarketAlert, MarketOdds, MarketReading, Match, RuleContext } from '../models/types';
+import { telegramService } from './telegram.service';
+import { rulesService } from './rules.service';
+import { MARKET_EXTRACTORS } from '../utils/markets';
+
+class MarketsService {
+  /**
+   * Get every market with an extractor and whether it is tracked
+   */
+  getMarkets(): Array<{ market: string; name: string; selections: string[]; tracked: boolean }> {
+    const tracked = this.getTrackedMarkets();
+    return Object.values(MARKET_EXTRACTORS).map(({ market, name, selections }) => ({
+      market,
+      name,
+      selections,
+      tracked: tracked.includes(market),
+    }));
+  }
+
+  /**
+   * Get the configured markets that have an extractor
+   */
+  getTrackedMarkets(): string[] {
+    return config.markets.tracked.filter((market) => !!MARKET_EXTRACTORS[market]);
+  }
+
+  /**
+   * Store a poll's market readings and fire the market rules they match
+   * Rules on the league's total line market (1_3 for soccer) are left to the target detection flow
+   */
+  async processReadings(match: Match, readings: MarketReading[], minute: number | null): Promise<void> {
+    for (const reading of readings) {
+      this.saveMarketOdds(match.match_id, reading, 'Bet365', minute);
+      if (reading.market === config.getTotalMarket(match.league_id)) continue;
+
+      const prices: Record<string, number | null> = {};
+      for (const [selection, odds] of Object.entries(reading.prices)) {
+        prices[selection] = parseFloat(odds) || null;
+      }
+
+      const context: RuleContext = {
+        leagueId: match.league_id,
+        market: reading.market,
+        handicap: reading.handicap,
+        score: reading.score,
+        minute,
+        overOdds: prices.over ?? null,
+        underOdds: prices.under ?? null,
+        prices,
+      };
+
+      for (const rule of rulesService.findMatchingRules(context)) {
+        await this.fireMarketAlert(match, rule, reading, prices, minute);
+      }
+    }
+  }
+
+  private async fireMarketAlert(
+    match: Match,
+    rule: DetectionRule,
+    reading: MarketReading,
+    prices: Record<string, number | null>,
+    minute: number | null
+  ): Promise<void> {
+    const marketAlert: MarketAlert = {
+      match_id: match.match_id,
+      rule_id: rule.id!,
+      market: reading.market,
+      selection: rule.selection ?? null,
+      handicap: reading.handicap,
+      odds: rule.selection ? prices[rule.selection] ?? null : null,
+      score: reading.score,
+      match_minute: minute,
+    };
+
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO market_alerts (match_id, rule_id, market, selection, handicap, odds, score, match_minute)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      marketAlert.match_id,
+      marketAlert.rule_id,
+      marketAlert.market,
+      marketAlert.selection,
+      marketAlert.handicap,
+      marketAlert.odds,
+      marketAlert.score,
+      marketAlert.match_minute
+    );
+    if (result.changes === 0) return;
+
+    const marketName = MARKET_EXTRACTORS[reading.market].name;
+    console.log(`📊 Market rule "${rule.name}" matched ${marketName}: ${match.home_team} vs ${match.away_team}`);
+
+    const success = await telegramService.sendMarketAlert(match, marketAlert, reading, rule.name);
+    if (success) {
+      db.prepare('UPDATE market_alerts SET alert_sent = 1 WHERE id = ?').run(result.lastInsertRowid);
+    }
+  }
+
+  /**
+   * Save a market reading - rows are only written when the market moved since its last reading
+   */
+  saveMarketOdds(matchId: string, reading: MarketReading, bookmaker: string, minute: number | null): void {
+    const rows = Object.entries(reading.prices).map(([selection, odds]) => ({
+      selection,
+      odds: parseFloat(odds) || null,
+    }));
+    if (rows.length === 0) return;
+
+    // Latest stored price of each selection
+    const last = db.prepare(`
+      SELECT m.selection, m.handicap, m.odds, m.score FROM market_odds m
+      JOIN (
+        SELECT selection, MAX(id) as id FROM market_odds
+        WHERE match_id = ? AND market = ? AND bookmaker = ?
+        GROUP BY selection
+      ) latest ON latest.id = m.id
+    `).all(matchId, reading.market, bookmaker) as MarketOdds[];
+
+    const unchanged = rows.every((row) => last.some((previous) =>
+      previous.selection === row.selection &&
+      previous.handicap === reading.handicap &&
+      previous.odds === row.odds &&
+      previous.score === reading.score
+    ));
+    if (unchanged) return;
+
+    const insertStmt = db.prepare(`
+      INSERT INTO market_odds (match_id, market, bookmaker, selection, handicap, odds, score, match_minute)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      for (const row of rows) {
+        insertStmt.run(matchId, reading.market, bookmaker, row.selection, reading.handicap, row.odds, reading.score, minute);
+      }
+    })();
+  }
+
+  /**
+   * Get a match's stored market odds, optionally for one market
+   */
+  getMarketOdds(matchId: string, market?: string): MarketOdds[] {
+    let query = 'SELECT * FROM market_odds WHERE match_id = ?';
+    const params: any[] = [matchId];
+
+    if (market) {
+      query += ' AND market = ?';
+      params.push(market);
+    }
+
+    query += ' ORDER BY id ASC';
+
+    return db.prepare(query).all(...params) as MarketOdds[];
+  }
+
+  /**
+   * Get market rule alerts for a match
+   */
+  getMarketAlerts(matchId: string): MarketAlert[] {
+    return db.prepare(
+      'SELECT * FROM market_alerts WHERE match_id = ? ORDER BY id ASC'
+    ).all(matchId) as MarketAlert[];
+  }
+}
+
+export const marketsService = new MarketsService();
+export default marketsService;
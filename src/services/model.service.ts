@@ -0,0 +1,171 @@
+import db from '../config/database';
+import { config } from '../config';
+import { GoalLineResult, GoalModelEstimate, Match, ValueAlert } from '../models/types';
+import { telegramService } from './telegram.service';
+import { fairGoalLinePrice } from '../utils/poisson';
+import { totalGoalsFromScore } from '../utils/score';
+import { GOAL_LINE_MARKET } from '../utils/markets';
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+class ModelService {
+  /**
+   * Estimate fair over/under prices for the current goal line of a live match
+   * Goals are a Poisson process at the pairing's scoring rate (players' own rates in this league
+   * once both have enough finished matches, otherwise the league average)
+   * Only soccer goals are modelled - basketball points don't fit a Poisson count
+   */
+  estimate(match: Match, goalLineResult: GoalLineResult): GoalModelEstimate | null {
+    if (config.getTotalMarket(match.league_id) !== GOAL_LINE_MARKET) return null;
+
+    const minute = goalLineResult.minute ?? match.current_minute ?? null;
+    const currentGoals = totalGoalsFromScore(goalLineResult.score);
+    if (minute === null || currentGoals === null) return null;
+
+    const rate = this.getExpectedTotal(match);
+    if (!rate) return null;
+
+    const duration = config.getMatchDuration(match.league_id);
+    const remainingShare = Math.max(duration - minute, 0) / duration;
+    const expectedRemaining = rate.expectedTotal * remainingShare;
+
+    const over = fairGoalLinePrice(goalLineResult.handicap, 'over', currentGoals, expectedRemaining);
+    const under = fairGoalLinePrice(goalLineResult.handicap, 'under', currentGoals, expectedRemaining);
+
+    return {
+      goalLine: goalLineResult.handicap,
+      minute,
+      currentGoals,
+      expectedTotal: Math.round(rate.expectedTotal * 100) / 100,
+      expectedRemaining: Math.round(expectedRemaining * 100) / 100,
+      source: rate.source,
+      sample: rate.sample,
+      overProbability: round4(over.probability),
+      underProbability: round4(under.probability),
+      fairOverOdds: over.fairOdds,
+      fairUnderOdds: under.fairOdds,
+    };
+  }
+
+  /**
+   * Get the expected full-time goals for a match's pairing
+   */
+  private getExpectedTotal(match: Match): { expectedTotal: number; source: 'player' | 'league'; sample: number } | null {
+    const settings = config.model;
+
+    if (match.home_player_id && match.away_player_id) {
+      const home = this.getPlayerRates(match.home_player_id, match.league_id);
+      const away = this.getPlayerRates(match.away_player_id, match.league_id);
+
+      if (home.matches >= settings.playerMinSample && away.matches >= settings.playerMinSample) {
+        // Each side's goals: average of what it scores and what the opponent concedes
+        const homeGoals = (home.scored + away.conceded) / 2;
+        const awayGoals = (away.scored + home.conceded) / 2;
+        return { expectedTotal: homeGoals + awayGoals, source: 'player', sample: Math.min(home.matches, away.matches) };
+      }
+    }
+
+    const league = db.prepare(`
+      SELECT COUNT(*) as matches, AVG(final_score_home + final_score_away) as avg_total
+      FROM matches
+      WHERE league_id = ? AND status = 'finished' AND final_score_home IS NOT NULL AND final_score_away IS NOT NULL
+    `).get(match.league_id) as { matches: number; avg_total: number | null };
+
+    if (league.matches < settings.leagueMinSample || league.avg_total === null) return null;
+    return { expectedTotal: league.avg_total, source: 'league', sample: league.matches };
+  }
+
+  private getPlayerRates(playerId: number, leagueId: number): { matches: number; scored: number; conceded: number } {
+    const row = db.prepare(`
+      SELECT
+        COUNT(*) as matches,
+        AVG(CASE WHEN home_player_id = @playerId THEN final_score_home ELSE final_score_away END) as scored,
+        AVG(CASE WHEN home_player_id = @playerId THEN final_score_away ELSE final_score_home END) as conceded
+      FROM matches
+      WHERE league_id = @leagueId
+        AND status = 'finished'
+        AND final_score_home IS NOT NULL
+        AND final_score_away IS NOT NULL
+        AND (home_player_id = @playerId OR away_player_id = @playerId)
+    `).get({ playerId, leagueId }) as { matches: number; scored: number | null; conceded: number | null };
+
+    return { matches: row.matches, scored: row.scored ?? 0, conceded: row.conceded ?? 0 };
+  }
+
+  /**
+   * Compare the model with the bookmaker's no-vig prices and alert when a side has enough edge
+   * Each side of a goal line alerts at most once per match
+   */
+  async checkValue(match: Match, goalLineResult: GoalLineResult): Promise<void> {
+    if (!config.model.valueAlerts) return;
+
+    const overOdds = parseFloat(goalLineResult.overOdds);
+    const underOdds = parseFloat(goalLineResult.underOdds);
+    if (!(overOdds > 1) || !(underOdds > 1)) return;
+
+    const estimate = this.estimate(match, goalLineResult);
+    if (!estimate) return;
+
+    // Remove the bookmaker margin so both implied probabilities add up to 1
+    const overImplied = (1 / overOdds) / (1 / overOdds + 1 / underOdds);
+    const sides = [
+      { side: 'over' as const, odds: overOdds, model: estimate.overProbability, implied: overImplied, fairOdds: estimate.fairOverOdds },
+      { side: 'under' as const, odds: underOdds, model: estimate.underProbability, implied: 1 - overImplied, fairOdds: estimate.fairUnderOdds },
+    ];
+
+    for (const { side, odds, model, implied, fairOdds } of sides) {
+      const edge = model - implied;
+      if (edge < config.model.edge) continue;
+
+      const valueAlert: ValueAlert = {
+        match_id: match.match_id,
+        goal_line: estimate.goalLine,
+        side,
+        odds,
+        model_probability: round4(model),
+        implied_probability: round4(implied),
+        edge: round4(edge),
+        fair_odds: fairOdds,
+        score: goalLineResult.score,
+        match_minute: estimate.minute,
+      };
+
+      const result = db.prepare(`
+        INSERT OR IGNORE INTO value_alerts
+          (match_id, goal_line, side, odds, model_probability, implied_probability, edge, fair_odds, score, match_minute)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        valueAlert.match_id,
+        valueAlert.goal_line,
+        valueAlert.side,
+        valueAlert.odds,
+        valueAlert.model_probability,
+        valueAlert.implied_probability,
+        valueAlert.edge,
+        valueAlert.fair_odds,
+        valueAlert.score ?? null,
+        valueAlert.match_minute ?? null
+      );
+      if (result.changes === 0) continue;
+
+      console.log(`💎 Value ${side} ${estimate.goalLine} @ ${odds} (fair ${fairOdds}): ${match.home_team} vs ${match.away_team}`);
+
+      const success = await telegramService.sendValueAlert(match, valueAlert, estimate);
+      if (success) {
+        db.prepare('UPDATE value_alerts SET alert_sent = 1 WHERE id = ?').run(result.lastInsertRowid);
+      }
+    }
+  }
+
+  /**
+   * Get value alerts for a match
+   */
+  getValueAlerts(matchId: string): ValueAlert[] {
+    return db.prepare(
+      'SELECT * FROM value_alerts WHERE match_id = ? ORDER BY id ASC'
+    ).all(matchId) as ValueAlert[];
+  }
+}
+
+export const modelService = new ModelService();
+export default modelService;
@@ -0,0 +1,148 @@
+import db from '../config/database';
+import { config } from '../config';
+import { telegramService } from './telegram.service';
+import { GoalLineResult, LineMovementAlert, Match, OddsSnapshot } from '../models/types';
+import { totalGoalsFromScore } from '../utils/score';
+
+class MovementService {
+  /**
+   * Check the odds timeline of a match for a sharp goal line move and alert on it
+   * Must run after the current poll's snapshot has been saved
+   */
+  async checkLineMovement(match: Match, goalLineResult: GoalLineResult): Promise<void> {
+    const settings = config.getLineMovementSettings(match.league_id);
+    if (!settings.enabled) return;
+
+    const windowSeconds = Math.round((settings.windowPolls * config.pollingInterval) / 1000);
+    const snapshots = this.getWindowSnapshots(match.match_id, windowSeconds);
+    if (snapshots.length < 2) return;
+
+    const current = goalLineResult.handicap;
+    const first = snapshots[0];
+    const movements: LineMovementAlert[] = [];
+
+    const base = {
+      match_id: match.match_id,
+      to_line: current,
+      score_after: goalLineResult.score,
+      minute_after: goalLineResult.minute ?? null,
+      window_seconds: windowSeconds,
+    };
+
+    // Sharp drop from the highest line in the window
+    const peak = snapshots.reduce((max, s) => (s.handicap! > max.handicap! ? s : max), first);
+    if (peak.handicap! - current >= settings.dropThreshold) {
+      movements.push({
+        ...base,
+        type: 'drop',
+        from_line: peak.handicap!,
+        score_before: peak.score,
+        minute_before: peak.match_minute ?? null,
+      });
+    }
+
+    // Sharp rise from the lowest line in the window
+    if (settings.riseThreshold) {
+      const trough = snapshots.reduce((min, s) => (s.handicap! < min.handicap! ? s : min), first);
+      if (current - trough.handicap! >= settings.riseThreshold) {
+        movements.push({
+          ...base,
+          type: 'rise',
+          from_line: trough.handicap!,
+          score_before: trough.score,
+          minute_before: trough.match_minute ?? null,
+        });
+      }
+    }
+
+    // Line fell although goals were scored in the window
+    if (settings.againstScore) {
+      const goalsBefore = totalGoalsFromScore(first.score);
+      const goalsNow = totalGoalsFromScore(goalLineResult.score);
+      if (goalsBefore !== null && goalsNow !== null && goalsNow > goalsBefore && current < first.handicap!) {
+        movements.push({
+          ...base,
+          type: 'against_score',
+          from_line: first.handicap!,
+          score_before: first.score,
+          minute_before: first.match_minute ?? null,
+        });
+      }
+    }
+
+    for (const movement of movements) {
+      if (this.wasRecentlyAlerted(match.match_id, movement.type, windowSeconds)) continue;
+      await this.recordAndAlert(match, movement);
+    }
+  }
+
+  /**
+   * Get the snapshots covering the window: the line in force when it opened plus every change since
+   */
+  private getWindowSnapshots(matchId: string, windowSeconds: number): OddsSnapshot[] {
+    const windowStart = `-${windowSeconds} seconds`;
+
+    const opening = db.prepare(`
+      SELECT * FROM odds_snapshots
+      WHERE match_id = ? AND handicap IS NOT NULL AND recorded_at < datetime('now', ?)
+      ORDER BY id DESC LIMIT 1
+    `).get(matchId, windowStart) as OddsSnapshot | undefined;
+
+    const inWindow = db.prepare(`
+      SELECT * FROM odds_snapshots
+      WHERE match_id = ? AND handicap IS NOT NULL AND recorded_at >= datetime('now', ?)
+      ORDER BY id ASC
+    `).all(matchId, windowStart) as OddsSnapshot[];
+
+    return opening ? [opening, ...inWindow] : inWindow;
+  }
+
+  /**
+   * Check if the same kind of movement was already alerted for this match within the window
+   */
+  private wasRecentlyAlerted(matchId: string, type: LineMovementAlert['type'], windowSeconds: number): boolean {
+    const row = db.prepare(`
+      SELECT id FROM line_movement_alerts
+      WHERE match_id = ? AND type = ? AND created_at >= datetime('now', ?)
+      LIMIT 1
+    `).get(matchId, type, `-${windowSeconds} seconds`);
+    return !!row;
+  }
+
+  private async recordAndAlert(match: Match, movement: LineMovementAlert): Promise<void> {
+    const result = db.prepare(`
+      INSERT INTO line_movement_alerts
+        (match_id, type, from_line, to_line, score_before, score_after, minute_before, minute_after, window_seconds)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      movement.match_id,
+      movement.type,
+      movement.from_line,
+      movement.to_line,
+      movement.score_before ?? null,
+      movement.score_after ?? null,
+      movement.minute_before ?? null,
+      movement.minute_after ?? null,
+      movement.window_seconds ?? null
+    );
+
+    console.log(`📉 Line ${movement.type}: ${match.home_team} vs ${match.away_team} ${movement.from_line} → ${movement.to_line}`);
+
+    const success = await telegramService.sendLineMovementAlert(match, movement);
+    if (success) {
+      db.prepare('UPDATE line_movement_alerts SET alert_sent = 1 WHERE id = ?').run(result.lastInsertRowid);
+    }
+  }
+
+  /**
+   * Get movement alerts for a match
+   */
+  getMovementAlerts(matchId: string): LineMovementAlert[] {
+    return db.prepare(
+      'SELECT * FROM line_movement_alerts WHERE match_id = ? ORDER BY id ASC'
+    ).all(matchId) as LineMovementAlert[];
+  }
+}
+
+export const movementService = new MovementService();
+export default movementService;
@@ -0,0 +1,256 @@
+import db from '../config/database';
+import { config, PaperStrategy, StakingSettings } from '../config';
+import { BankrollPoint, GoalLineResult, Match, PaperBet } from '../models/types';
+import { BetSide, hitRateOf, settleTotalLine, SettlementOutcome } from '../utils/settlement';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+class PaperTradingService {
+  /**
+   * Place a virtual bet for every configured strategy on a target alert
+   * Placing is idempotent per match, line, side and strategy, so a retried alert doesn't double up
+   */
+  placeBets(match: Match, goalLineResult: GoalLineResult, goalLine: number, ruleId?: number | null): PaperBet[] {
+    const settings = config.paperTrading;
+    if (!settings.enabled) return [];
+
+    const side = settings.side;
+    const odds = parseFloat(side === 'over' ? goalLineResult.overOdds : goalLineResult.underOdds);
+    if (!odds || odds <= 1) {
+      console.log(`📒 Paper bet skipped for match ${match.match_id}: no ${side} price`);
+      return [];
+    }
+
+    const insertStmt = db.prepare(`
+      INSERT OR IGNORE INTO paper_bets
+        (match_id, league_id, home_team, away_team, rule_id, strategy, side, goal_line, odds, stake, bankroll_before)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const placed: PaperBet[] = [];
+    for (const strategy of settings.strategies) {
+      const bankroll = this.getBankroll(strategy);
+      const available = bankroll - this.getOpenStake(strategy);
+      const hitRate = strategy === 'kelly' ? this.getHistoricalHitRate(match.league_id, goalLine, side) : null;
+      const stake = Math.min(this.calculateStake(strategy, bankroll, odds, hitRate), available);
+
+      if (stake <= 0) {
+        console.log(`📒 Paper bet skipped for match ${match.match_id} (${strategy}): no stake`);
+        continue;
+      }
+
+      const bet: PaperBet = {
+        match_id: match.match_id,
+        league_id: match.league_id,
+        home_team: match.home_team,
+        away_team: match.away_team,
+        rule_id: ruleId ?? null,
+        strategy,
+        side,
+        goal_line: goalLine,
+        odds,
+        stake: round2(stake),
+        bankroll_before: round2(bankroll),
+      };
+
+      const result = insertStmt.run(
+        bet.match_id,
+        bet.league_id,
+        bet.home_team,
+        bet.away_team,
+        bet.rule_id,
+        bet.strategy,
+        bet.side,
+        bet.goal_line,
+        bet.odds,
+        bet.stake,
+        bet.bankroll_before
+      );
+
+      if (result.changes > 0) {
+        console.log(`📒 Paper bet (${strategy}): ${bet.stake} on ${side} ${goalLine} @ ${odds} - ${match.home_team} vs ${match.away_team}`);
+        placed.push({ ...bet, id: Number(result.lastInsertRowid), status: 'open' });
+      }
+    }
+
+    return placed;
+  }
+
+  /**
+   * Calculate the stake for a strategy
+   * Kelly needs the historical hit rate of the bet and stakes nothing without an edge
+   */
+  calculateStake(
+    strategy: PaperStrategy,
+    bankroll: number,
+    odds: number,
+    hitRate: number | null,
+    settings: StakingSettings = config.paperTrading
+  ): number {
+    switch (strategy) {
+      case 'flat':
+        return settings.flatStake;
+      case 'percentage':
+        return (bankroll * settings.stakePercent) / 100;
+      case 'kelly': {
+        if (hitRate === null) return 0;
+
+        const b = odds - 1;
+        const kelly = (b * hitRate - (1 - hitRate)) / b;
+        return kelly > 0 ? bankroll * kelly * settings.kellyFraction : 0;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Get the share of decided stake won by one side of a line in a league, from settled touches
+   * Returns null until enough lines have settled
+   */
+  getHistoricalHitRate(leagueId: number, goalLine: number, side: BetSide): number | null {
+    const rows = db.prepare(`
+      SELECT a.${side === 'over' ? 'over_outcome' : 'under_outcome'} as outcome
+      FROM match_line_alerts a
+      JOIN matches m ON a.match_id = m.match_id
+      WHERE m.league_id = ? AND a.goal_line = ? AND a.settled_at IS NOT NULL
+    `).all(leagueId, goalLine) as Array<{ outcome: SettlementOutcome | null }>;
+
+    const outcomes = rows.filter((row) => row.outcome).map((row) => row.outcome as SettlementOutcome);
+    if (outcomes.length < config.paperTrading.kellyMinSample) return null;
+
+    return hitRateOf(outcomes);
+  }
+
+  /**
+   * Settle every open paper bet of a finished match
+   */
+  settleBets(matchId: string, homeScore: number, awayScore: number): void {
+    const openBets = db.prepare(
+      "SELECT * FROM paper_bets WHERE match_id = ? AND status = 'open'"
+    ).all(matchId) as PaperBet[];
+
+    const stmt = db.prepare(`
+      UPDATE paper_bets
+      SET status = 'settled', outcome = ?, payout = ?, profit = ?, settled_at = datetime('now')
+      WHERE id = ?
+    `);
+
+    for (const bet of openBets) {
+      const sportId = config.getLeagueSport(bet.league_id);
+      const settlement = settleTotalLine(sportId, bet.goal_line, bet.side, { home: homeScore, away: awayScore }, bet.odds);
+      if (!settlement) continue;
+
+      const payout = round2(bet.stake * settlement.payoutMultiplier);
+      stmt.run(settlement.outcome, payout, round2(payout - bet.stake), bet.id);
+      console.log(`📒 Paper bet #${bet.id} (${bet.strategy}) settled: ${settlement.outcome} ${round2(payout - bet.stake)}`);
+    }
+  }
+
+  /**
+   * Get paper bets, newest first
+   */
+  getBets(options: { strategy?: string; status?: string; limit?: number } = {}): PaperBet[] {
+    let query = 'SELECT * FROM paper_bets WHERE 1=1';
+    const params: any[] = [];
+
+    if (options.strategy) {
+      query += ' AND strategy = ?';
+      params.push(options.strategy);
+    }
+
+    if (options.status) {
+      query += ' AND status = ?';
+      params.push(options.status);
+    }
+
+    query += ' ORDER BY id DESC LIMIT ?';
+    params.push(options.limit || 100);
+
+    return db.prepare(query).all(...params) as PaperBet[];
+  }
+
+  /**
+   * Get a strategy's current bankroll (settled profit only)
+   */
+  getBankroll(strategy: string): number {
+    const row = db.prepare(
+      "SELECT COALESCE(SUM(profit), 0) as profit FROM paper_bets WHERE strategy = ? AND status = 'settled'"
+    ).get(strategy) as { profit: number };
+    return config.paperTrading.startingBankroll + row.profit;
+  }
+
+  private getOpenStake(strategy: string): number {
+    const row = db.prepare(
+      "SELECT COALESCE(SUM(stake), 0) as stake FROM paper_bets WHERE strategy = ? AND status = 'open'"
+    ).get(strategy) as { stake: number };
+    return row.stake;
+  }
+
+  /**
+   * Get a strategy's bankroll summary and equity curve in settlement order
+   */
+  getBankrollSummary(strategy: string): {
+    strategy: string;
+    startingBankroll: number;
+    bankroll: number;
+    profit: number;
+    settledBets: number;
+    openBets: number;
+    openStake: number;
+    totalStaked: number;
+    roi: number;
+    curve: BankrollPoint[];
+  } {
+    const startingBankroll = config.paperTrading.startingBankroll;
+    const settled = db.prepare(`
+      SELECT id, match_id, settled_at, stake, profit FROM paper_bets
+      WHERE strategy = ? AND status = 'settled'
+      ORDER BY settled_at ASC, id ASC
+    `).all(strategy) as Array<{ id: number; match_id: string; settled_at: string; stake: number; profit: number }>;
+
+    let bankroll = startingBankroll;
+    let totalStaked = 0;
+    const curve: BankrollPoint[] = settled.map((bet) => {
+      bankroll += bet.profit;
+      totalStaked += bet.stake;
+      return {
+        betId: bet.id,
+        matchId: bet.match_id,
+        settledAt: bet.settled_at,
+        profit: bet.profit,
+        bankroll: round2(bankroll),
+      };
+    });
+
+    const open = db.prepare(
+      "SELECT COUNT(*) as count, COALESCE(SUM(stake), 0) as stake FROM paper_bets WHERE strategy = ? AND status = 'open'"
+    ).get(strategy) as { count: number; stake: number };
+
+    const profit = round2(bankroll - startingBankroll);
+
+    return {
+      strategy,
+      startingBankroll,
+      bankroll: round2(bankroll),
+      profit,
+      settledBets: settled.length,
+      openBets: open.count,
+      openStake: round2(open.stake),
+      totalStaked: round2(totalStaked),
+      roi: totalStaked > 0 ? Math.round((profit / totalStaked) * 1000) / 10 : 0,
+      curve,
+    };
+  }
+
+  /**
+   * Get every strategy that is configured or has bets in the ledger
+   */
+  getStrategies(): string[] {
+    const rows = db.prepare('SELECT DISTINCT strategy FROM paper_bets').all() as Array<{ strategy: string }>;
+    return Array.from(new Set([...config.paperTrading.strategies, ...rows.map((row) => row.strategy)]));
+  }
+}
+
+export const paperTradingService = new PaperTradingService();
+export default paperTradingService;
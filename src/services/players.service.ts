@@ -0,0 +1,265 @@
+import db from '../config/database';
+import { config } from '../config';
+import { HeadToHeadSummary, Player } from '../models/types';
+import { parseEsoccerTeam } from '../utils/player';
+import { hitRateOf, settleTotalLine, SettlementOutcome, WIN_SHARE } from '../utils/settlement';
+import { rulesService } from './rules.service';
+import { teamsService } from './teams.service';
+
+// Lines the per-player over rates are reported for
+const PLAYER_LINES = [0.5, 1.5, 2.5, 3.5, 4.5, 5.5, 6.5, 7.5];
+
+class PlayersService {
+  /**
+   * Get a player's ID by handle, creating the player on first sight
+   */
+  getOrCreatePlayer(name: string): number {
+    db.prepare(`
+      INSERT INTO players (name) VALUES (?)
+      ON CONFLICT(name) DO UPDATE SET last_seen = datetime('now')
+    `).run(name);
+
+    return (db.prepare('SELECT id FROM players WHERE name = ?').get(name) as { id: number }).id;
+  }
+
+  /**
+   * Parse the player handles from a match's team names and link them to the match
+   */
+  linkMatchPlayers(matchId: string, homeTeam: string, awayTeam: string): void {
+    const home = parseEsoccerTeam(homeTeam).player;
+    const away = parseEsoccerTeam(awayTeam).player;
+    if (!home && !away) return;
+
+    db.prepare(`
+      UPDATE matches SET home_player_id = ?, away_player_id = ?
+      WHERE match_id = ?
+    `).run(
+      home ? this.getOrCreatePlayer(home) : null,
+      away ? this.getOrCreatePlayer(away) : null,
+      matchId
+    );
+  }
+
+  /**
+   * Get players with their tracked match counts, most recently seen first
+   */
+  getPlayers(options: { search?: string; limit?: number } = {}): Array<Player & { matches: number }> {
+    let query = `
+      SELECT p.*,
+        (SELECT COUNT(*) FROM matches m WHERE m.home_player_id = p.id OR m.away_player_id = p.id) as matches
+      FROM players p
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+
+    if (options.search) {
+      query += ' AND p.name LIKE ?';
+      params.push(`%${options.search}%`);
+    }
+
+    query += ' ORDER BY p.last_seen DESC LIMIT ?';
+    params.push(options.limit || 100);
+
+    return db.prepare(query).all(...params) as Array<Player & { matches: number }>;
+  }
+
+  /**
+   * Get a player by handle (case-insensitive)
+   */
+  getPlayerByName(name: string): Player | undefined {
+    return db.prepare('SELECT * FROM players WHERE name = ?').get(name) as Player | undefined;
+  }
+
+  /**
+   * Get a single player by ID
+   */
+  getPlayer(id: number): Player | undefined {
+    return db.prepare('SELECT * FROM players WHERE id = ?').get(id) as Player | undefined;
+  }
+
+  /**
+   * Get a player's statistics over their finished matches
+   */
+  getPlayerStats(playerId: number): {
+    matchesPlayed: number;
+    avgGoalsScored: number;
+    avgGoalsConceded: number;
+    avgTotalGoals: number;
+    overRates: Array<{ line: number; overs: number; rate: number }>;
+    targetTouch: Array<{ leagueId: number; leagueName: string; matches: number; touched: number; ratio: number }>;
+  } {
+    const matches = db.prepare(`
+      SELECT league_id, home_player_id, final_score_home, final_score_away, touched_target
+      FROM matches
+      WHERE (home_player_id = ? OR away_player_id = ?)
+        AND status = 'finished'
+        AND final_score_home IS NOT NULL
+        AND final_score_away IS NOT NULL
+    `).all(playerId, playerId) as Array<{
+      league_id: number;
+      home_player_id: number | null;
+      final_score_home: number;
+      final_score_away: number;
+      touched_target: number | null;
+    }>;
+
+    let scored = 0;
+    let conceded = 0;
+    const leagueMap = new Map<number, { matches: number; touched: number }>();
+
+    for (const match of matches) {
+      const isHome = match.home_player_id === playerId;
+      scored += isHome ? match.final_score_home : match.final_score_away;
+      conceded += isHome ? match.final_score_away : match.final_score_home;
+
+      const league = leagueMap.get(match.league_id) || { matches: 0, touched: 0 };
+      league.matches++;
+      if (match.touched_target) league.touched++;
+      leagueMap.set(match.league_id, league);
+    }
+
+    const played = matches.length;
+    const average = (value: number) => (played > 0 ? Math.round((value / played) * 100) / 100 : 0);
+    const percent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+    // Settled like an over bet on the line - half wins count half and pushes are left out of the rate
+    const overRates = PLAYER_LINES.map((line) => {
+      const outcomes = matches
+        .map((m) => this.settleOver(m.league_id, line, m.final_score_home, m.final_score_away))
+        .filter((outcome): outcome is SettlementOutcome => outcome !== null);
+      const overs = outcomes.reduce((sum, outcome) => sum + WIN_SHARE[outcome], 0);
+      return { line, overs, rate: Math.round((hitRateOf(outcomes) ?? 0) * 1000) / 10 };
+    });
+
+    const targetTouch = Array.from(leagueMap.entries()).map(([leagueId, data]) => ({
+      leagueId,
+      leagueName: config.leagueNames[leagueId] || `League ${leagueId}`,
+      matches: data.matches,
+      touched: data.touched,
+      ratio: percent(data.touched, data.matches),
+    }));
+
+    return {
+      matchesPlayed: played,
+      avgGoalsScored: average(scored),
+      avgGoalsConceded: average(conceded),
+      avgTotalGoals: average(scored + conceded),
+      overRates,
+      targetTouch,
+    };
+  }
+
+  /**
+   * Get the stored finished meetings between two sides, newest first
+   * Team names or bare handles resolve to players when both are known, so a pairing
+   * is matched whichever clubs the players picked - otherwise to teams, through their aliases
+   */
+  getHeadToHead(
+    home: string,
+    away: string,
+    options: { leagueId?: number; line?: number; limit?: number } = {}
+  ): HeadToHeadSummary {
+    const homePlayer = this.getPlayerByName(parseEsoccerTeam(home).player ?? home.trim());
+    const awayPlayer = this.getPlayerByName(parseEsoccerTeam(away).player ?? away.trim());
+    const byPlayer = !!homePlayer && !!awayPlayer;
+    const homeTeamId = byPlayer ? null : teamsService.findTeam(home)?.id ?? null;
+    const awayTeamId = byPlayer ? null : teamsService.findTeam(away)?.id ?? null;
+
+    let query = `
+      SELECT match_id, league_id, home_team, away_team, home_player_id, home_team_id, detection_time, final_score_home, final_score_away
+      FROM matches
+      WHERE status = 'finished'
+        AND final_score_home IS NOT NULL
+        AND final_score_away IS NOT NULL
+    `;
+    const params: any[] = [];
+
+    if (byPlayer) {
+      query += ' AND ((home_player_id = ? AND away_player_id = ?) OR (home_player_id = ? AND away_player_id = ?))';
+      params.push(homePlayer!.id, awayPlayer!.id, awayPlayer!.id, homePlayer!.id);
+    } else {
+      query += ' AND ((home_team_id = ? AND away_team_id = ?) OR (home_team_id = ? AND away_team_id = ?))';
+      params.push(homeTeamId, awayTeamId, awayTeamId, homeTeamId);
+    }
+
+    if (options.leagueId) {
+      query += ' AND league_id = ?';
+      params.push(options.leagueId);
+    }
+
+    query += ' ORDER BY detection_time DESC';
+
+    const matches = db.prepare(query).all(...params) as Array<{
+      match_id: string;
+      league_id: number;
+      home_team: string;
+      away_team: string;
+      home_player_id: number | null;
+      home_team_id: number | null;
+      detection_time: string;
+      final_score_home: number;
+      final_score_away: number;
+    }>;
+
+    const line = options.line ?? (options.leagueId ? rulesService.getTargetGoalLine(options.leagueId) : null);
+    let homeWins = 0;
+    let awayWins = 0;
+    let totalGoals = 0;
+    const overOutcomes: SettlementOutcome[] = [];
+    const targetByLeague = new Map<number, number>();
+
+    for (const match of matches) {
+      // Orient the score to the requested home side
+      const reversed = byPlayer ? match.home_player_id !== homePlayer!.id : match.home_team_id !== homeTeamId;
+      const homeGoals = reversed ? match.final_score_away : match.final_score_home;
+      const awayGoals = reversed ? match.final_score_home : match.final_score_away;
+      const total = homeGoals + awayGoals;
+
+      if (homeGoals > awayGoals) homeWins++;
+      else if (awayGoals > homeGoals) awayWins++;
+      totalGoals += total;
+      if (!targetByLeague.has(match.league_id)) {
+        targetByLeague.set(match.league_id, line ?? rulesService.getTargetGoalLine(match.league_id));
+      }
+      const overOutcome = this.settleOver(match.league_id, targetByLeague.get(match.league_id)!, homeGoals, awayGoals);
+      if (overOutcome) overOutcomes.push(overOutcome);
+    }
+
+    const count = matches.length;
+    const overRate = hitRateOf(overOutcomes);
+
+    return {
+      home,
+      away,
+      byPlayer,
+      matches: count,
+      homeWins,
+      awayWins,
+      draws: count - homeWins - awayWins,
+      avgTotalGoals: count > 0 ? Math.round((totalGoals / count) * 100) / 100 : 0,
+      line,
+      overs: overOutcomes.reduce((sum, outcome) => sum + WIN_SHARE[outcome], 0),
+      overRate: overRate !== null ? Math.round(overRate * 1000) / 10 : 0,
+      lastResults: matches.slice(0, options.limit ?? 10).map((match) => ({
+        matchId: match.match_id,
+        leagueId: match.league_id,
+        homeTeam: match.home_team,
+        awayTeam: match.away_team,
+        score: `${match.final_score_home}-${match.final_score_away}`,
+        totalGoals: match.final_score_home + match.final_score_away,
+        detectionTime: match.detection_time,
+      })),
+    };
+  }
+
+  /**
+   * Settle an over on a line with the rules of the league's sport
+   */
+  private settleOver(leagueId: number, line: number, homeScore: number, awayScore: number): SettlementOutcome | null {
+    // Outcome doesn't depend on the price, so any odds will do here
+    return settleTotalLine(config.getLeagueSport(leagueId), line, 'over', { home: homeScore, away: awayScore }, 1)?.outcome ?? null;
+  }
+}
+
+export const playersService = new PlayersService();
+export default playersService;
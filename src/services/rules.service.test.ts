@@ -0,0 +1,120 @@
+import { initializeDatabase } from '../config/database';
+import { DetectionRule, RuleContext } from '../models/types';
+import { rulesService } from './rules.service';
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  initializeDatabase();
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('rulesService.validateRule', () => {
+  it('accepts a complete rule', () => {
+    expect(rulesService.validateRule({ name: 'Over 2.5', goal_line: 2.5, minute_min: 10, minute_max: 60 })).toBeNull();
+    expect(rulesService.validateRule({ name: 'Draw', market: '1_1', selection: 'draw', odds_min: 3, odds_max: 4 })).toBeNull();
+  });
+
+  it('requires a name unless it is a partial rule', () => {
+    expect(rulesService.validateRule({ goal_line: 2.5 })).toBe('Rule name is required');
+    expect(rulesService.validateRule({ name: '  ' })).toBe('Rule name is required');
+    expect(rulesService.validateRule({ goal_line: 2.5 }, true)).toBeNull();
+  });
+
+  it('rejects non-numeric conditions', () => {
+    expect(rulesService.validateRule({ name: 'Rule', goal_line: '2.5' as any })).toBe('goal_line must be a number or null');
+    expect(rulesService.validateRule({ name: 'Rule', minute_min: NaN })).toBe('minute_min must be a number or null');
+  });
+
+  it('rejects a min above its max', () => {
+    expect(rulesService.validateRule({ name: 'Rule', odds_min: 3, odds_max: 2, selection: 'over' }))
+      .toBe('odds_min must not be greater than odds_max');
+    expect(rulesService.validateRule({ name: 'Rule', total_goals_min: 4, total_goals_max: 1 }))
+      .toBe('total_goals_min must not be greater than total_goals_max');
+  });
+
+  it('rejects a malformed score', () => {
+    expect(rulesService.validateRule({ name: 'Rule', score: '1:0' })).toBe('score must look like "1-0"');
+  });
+
+  it('checks the market and its selections', () => {
+    expect(rulesService.validateRule({ name: 'Rule', market: '99_1' })).toMatch(/^market must be one of /);
+    expect(rulesService.validateRule({ name: 'Rule', selection: 'draw' })).toBe('selection must be one of over, under');
+    expect(rulesService.validateRule({ name: 'Rule', market: '1_2', selection: 'over' })).toBe('selection must be one of home, away');
+    expect(rulesService.validateRule({ name: 'Rule', odds_min: 2 })).toBe('odds_min and odds_max require a selection');
+  });
+});
+
+describe('rulesService.updateRule', () => {
+  let ruleId: number;
+
+  beforeEach(() => {
+    ruleId = rulesService.createRule({ name: 'Draw', market: '1_1', selection: 'draw', odds_min: 2, odds_max: 4 }).id!;
+  });
+
+  it('changes only the fields provided', () => {
+    const result = rulesService.updateRule(ruleId, { odds_max: 5, name: undefined });
+
+    expect(result?.error).toBeUndefined();
+    expect(result?.rule).toMatchObject({ name: 'Draw', selection: 'draw', odds_min: 2, odds_max: 5 });
+  });
+
+  it('validates the fields provided against the stored rule', () => {
+    expect(rulesService.updateRule(ruleId, { odds_min: 5 })).toEqual({ error: 'odds_min must not be greater than odds_max' });
+    expect(rulesService.updateRule(ruleId, { market: '1_3' })).toEqual({ error: 'selection must be one of over, under' });
+    expect(rulesService.updateRule(ruleId, { selection: null })).toEqual({ error: 'odds_min and odds_max require a selection' });
+    expect(rulesService.getRule(ruleId)).toMatchObject({ market: '1_1', selection: 'draw', odds_min: 2, odds_max: 4 });
+  });
+
+  it('accepts a market change that brings a matching selection', () => {
+    expect(rulesService.updateRule(ruleId, { market: '1_3', selection: 'over' })?.rule).toMatchObject({ market: '1_3', selection: 'over' });
+  });
+
+  it('returns undefined for an unknown rule', () => {
+    expect(rulesService.updateRule(999999, { name: 'Missing' })).toBeUndefined();
+  });
+});
+
+describe('rulesService.evaluate', () => {
+  const rule = (fields: Partial<DetectionRule>): DetectionRule => ({ name: 'Rule', ...fields });
+  const context: RuleContext = { leagueId: 23114, handicap: 2.5, score: '1-0', minute: 30, overOdds: 1.9, underOdds: 1.95 };
+
+  it('matches an exact line', () => {
+    expect(rulesService.evaluate(rule({ goal_line: 2.5 }), context)).toBe(true);
+    expect(rulesService.evaluate(rule({ goal_line: 3 }), context)).toBe(false);
+  });
+
+  it('uses the line range when there is no exact line', () => {
+    expect(rulesService.evaluate(rule({ goal_line_min: 2, goal_line_max: 3 }), context)).toBe(true);
+    expect(rulesService.evaluate(rule({ goal_line_min: 2.75 }), context)).toBe(false);
+    expect(rulesService.evaluate(rule({ goal_line_min: 2 }), { ...context, handicap: null })).toBe(false);
+  });
+
+  it('only matches its own league and market', () => {
+    expect(rulesService.evaluate(rule({ league_id: 23114 }), context)).toBe(true);
+    expect(rulesService.evaluate(rule({ league_id: 37298 }), context)).toBe(false);
+    expect(rulesService.evaluate(rule({ market: '18_3' }), context)).toBe(false);
+    expect(rulesService.evaluate(rule({ market: '18_3' }), { ...context, market: '18_3' })).toBe(true);
+  });
+
+  it('checks the minute, score and total goals', () => {
+    expect(rulesService.evaluate(rule({ minute_min: 20, minute_max: 40 }), context)).toBe(true);
+    expect(rulesService.evaluate(rule({ minute_max: 25 }), context)).toBe(false);
+    expect(rulesService.evaluate(rule({ score: '1-0' }), context)).toBe(true);
+    expect(rulesService.evaluate(rule({ score: '0-0' }), context)).toBe(false);
+    expect(rulesService.evaluate(rule({ total_goals_min: 2 }), context)).toBe(false);
+  });
+
+  it('checks over/under and selection prices', () => {
+    expect(rulesService.evaluate(rule({ over_odds_min: 1.8, under_odds_max: 2 }), context)).toBe(true);
+    expect(rulesService.evaluate(rule({ over_odds_min: 2 }), context)).toBe(false);
+
+    const drawRule = rule({ market: '1_1', selection: 'draw', odds_min: 3 });
+    const drawContext = { ...context, market: '1_1', handicap: null };
+    expect(rulesService.evaluate(drawRule, { ...drawContext, prices: { draw: 3.4 } })).toBe(true);
+    expect(rulesService.evaluate(drawRule, { ...drawContext, prices: { draw: 2.8 } })).toBe(false);
+    expect(rulesService.evaluate(drawRule, drawContext)).toBe(false);
+  });
+});
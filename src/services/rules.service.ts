@@ -0,0 +1,277 @@
+import db from '../config/database';
+import { config } from '../config';
+import { DetectionRule, RuleContext } from '../models/types';
+import { totalGoalsFromScore } from '../utils/score';
+import { GOAL_LINE_MARKET, MARKET_EXTRACTORS } from '../utils/markets';
+
+// Rule columns that hold numeric conditions
+const NUMERIC_FIELDS = [
+  'league_id',
+  'goal_line',
+  'goal_line_min',
+  'goal_line_max',
+  'minute_min',
+  'minute_max',
+  'total_goals_min',
+  'total_goals_max',
+  'over_odds_min',
+  'over_odds_max',
+  'under_odds_min',
+  'under_odds_max',
+  'odds_min',
+  'odds_max',
+] as const;
+
+// Inclusive [min, max] pairs that must be ordered
+const RANGE_FIELDS: Array<[keyof DetectionRule, keyof DetectionRule]> = [
+  ['goal_line_min', 'goal_line_max'],
+  ['minute_min', 'minute_max'],
+  ['total_goals_min', 'total_goals_max'],
+  ['over_odds_min', 'over_odds_max'],
+  ['under_odds_min', 'under_odds_max'],
+  ['odds_min', 'odds_max'],
+];
+
+const RULE_COLUMNS = ['name', 'market', 'selection', 'score', 'enabled', ...NUMERIC_FIELDS] as const;
+
+/**
+ * Check a value against optional inclusive bounds.
+ * A missing value fails any bound that is set.
+ */
+function inRange(value: number | null | undefined, min?: number | null, max?: number | null): boolean {
+  if (min == null && max == null) return true;
+  if (value == null || isNaN(value)) return false;
+  if (min != null && value < min) return false;
+  if (max != null && value > max) return false;
+  return true;
+}
+
+class RulesService {
+  /**
+   * Get detection rules, optionally filtered by league and enabled state
+   */
+  getRules(options: { leagueId?: number; enabled?: boolean; market?: string } = {}): DetectionRule[] {
+    let query = 'SELECT * FROM detection_rules WHERE 1=1';
+    const params: any[] = [];
+
+    if (options.market) {
+      query += ' AND market = ?';
+      params.push(options.market);
+    }
+
+    if (options.leagueId) {
+      // Rules without a league apply to every league
+      query += ' AND (league_id = ? OR league_id IS NULL)';
+      params.push(options.leagueId);
+    }
+
+    if (options.enabled !== undefined) {
+      query += ' AND enabled = ?';
+      params.push(options.enabled ? 1 : 0);
+    }
+
+    query += ' ORDER BY id ASC';
+
+    return db.prepare(query).all(...params) as DetectionRule[];
+  }
+
+  /**
+   * Get a single rule by ID
+   */
+  getRule(id: number): DetectionRule | undefined {
+    return db.prepare('SELECT * FROM detection_rules WHERE id = ?').get(id) as DetectionRule | undefined;
+  }
+
+  /**
+   * Validate rule input, returns an error message or null if valid
+   */
+  validateRule(input: Partial<DetectionRule>, partial = false): string | null {
+    if (!partial || input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        return 'Rule name is required';
+      }
+    }
+
+    for (const field of NUMERIC_FIELDS) {
+      const value = input[field];
+      if (value !== undefined && value !== null && (typeof value !== 'number' || isNaN(value))) {
+        return `${field} must be a number or null`;
+      }
+    }
+
+    for (const [minField, maxField] of RANGE_FIELDS) {
+      const min = input[minField] as number | null | undefined;
+      const max = input[maxField] as number | null | undefined;
+      if (min != null && max != null && min > max) {
+        return `${minField} must not be greater than ${maxField}`;
+      }
+    }
+
+    if (input.score != null && !/^\d+-\d+$/.test(input.score)) {
+      return 'score must look like "1-0"';
+    }
+
+    if (input.market !== undefined && !MARKET_EXTRACTORS[input.market]) {
+      return `market must be one of ${Object.keys(MARKET_EXTRACTORS).join(', ')}`;
+    }
+
+    if (input.selection != null) {
+      const selections = MARKET_EXTRACTORS[input.market ?? GOAL_LINE_MARKET].selections;
+      if (!partial || input.market !== undefined) {
+        if (!selections.includes(input.selection)) {
+          return `selection must be one of ${selections.join(', ')}`;
+        }
+      }
+    } else if (!partial && (input.odds_min != null || input.odds_max != null)) {
+      return 'odds_min and odds_max require a selection';
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a new detection rule
+   */
+  createRule(input: Partial<DetectionRule>): DetectionRule {
+    const columns = RULE_COLUMNS.filter((column) => input[column] !== undefined);
+    const stmt = db.prepare(`
+      INSERT INTO detection_rules (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})
+    `);
+    const result = stmt.run(...columns.map((column) => this.toDbValue(column, input[column])));
+
+    return this.getRule(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * Update an existing rule - only provided fields are changed
+   * The rule they produce is validated as a whole, returns undefined if the rule doesn't exist
+   */
+  updateRule(id: number, input: Partial<DetectionRule>): { rule?: DetectionRule; error?: string } | undefined {
+    const existing = this.getRule(id);
+    if (!existing) return undefined;
+
+    const columns = RULE_COLUMNS.filter((column) => input[column] !== undefined);
+    const merged = { ...existing, ...Object.fromEntries(columns.map((column) => [column, input[column]])) };
+    const error = this.validateRule(merged);
+    if (error) return { error };
+
+    if (columns.length > 0) {
+      const stmt = db.prepare(`
+        UPDATE detection_rules
+        SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = datetime('now')
+        WHERE id = ?
+      `);
+      stmt.run(...columns.map((column) => this.toDbValue(column, input[column])), id);
+    }
+
+    return { rule: this.getRule(id) };
+  }
+
+  /**
+   * Delete a rule, returns false if it didn't exist
+   */
+  deleteRule(id: number): boolean {
+    const result = db.prepare('DELETE FROM detection_rules WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Check whether a rule matches the current match state
+   */
+  evaluate(rule: DetectionRule, context: RuleContext): boolean {
+    return this.matchesLine(rule, context) && this.matchesOdds(rule, context);
+  }
+
+  /**
+   * Check every rule condition except the price bounds
+   */
+  matchesLine(rule: DetectionRule, context: RuleContext): boolean {
+    if ((rule.market ?? GOAL_LINE_MARKET) !== (context.market ?? GOAL_LINE_MARKET)) return false;
+    if (rule.league_id != null && rule.league_id !== context.leagueId) return false;
+
+    if (rule.goal_line != null) {
+      if (context.handicap !== rule.goal_line) return false;
+    } else if (!inRange(context.handicap, rule.goal_line_min, rule.goal_line_max)) {
+      return false;
+    }
+
+    if (!inRange(context.minute, rule.minute_min, rule.minute_max)) return false;
+
+    if (rule.score != null && rule.score !== context.score) return false;
+
+    if (!inRange(totalGoalsFromScore(context.score), rule.total_goals_min, rule.total_goals_max)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check the rule's over/under and selection price bounds
+   */
+  matchesOdds(rule: DetectionRule, context: RuleContext): boolean {
+    if (!inRange(context.overOdds, rule.over_odds_min, rule.over_odds_max)) return false;
+    if (!inRange(context.underOdds, rule.under_odds_min, rule.under_odds_max)) return false;
+    if (rule.selection != null && !inRange(context.prices?.[rule.selection], rule.odds_min, rule.odds_max)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Find all enabled rules matching the current match state
+   * Rules are read from the database on every call so edits apply on the next poll
+   */
+  findMatchingRules(context: RuleContext): DetectionRule[] {
+    return this.getRules({ leagueId: context.leagueId, enabled: true })
+      .filter((rule) => this.evaluate(rule, context));
+  }
+
+  /**
+   * Find all enabled rules whose non-price conditions match, so a touch can be
+   * recorded even when the price is out of range
+   */
+  findLineMatchingRules(context: RuleContext): DetectionRule[] {
+    return this.getRules({ leagueId: context.leagueId, enabled: true })
+      .filter((rule) => this.matchesLine(rule, context));
+  }
+
+  /**
+   * Check current prices against a league's configured odds range
+   */
+  isWithinOddsRange(context: RuleContext): boolean {
+    const range = config.getOddsRange(context.leagueId);
+    return inRange(context.overOdds, range.overMin, range.overMax)
+      && inRange(context.underOdds, range.underMin, range.underMax);
+  }
+
+  /**
+   * Get the exact target goal line for a league from its enabled rules
+   * Falls back to the configured default when no exact-line rule exists
+   */
+  getTargetGoalLine(leagueId: number): number {
+    const rule = this.getRules({ leagueId, enabled: true, market: config.getTotalMarket(leagueId) }).find((r) => r.goal_line != null);
+    return rule?.goal_line ?? config.getTargetGoalLine(leagueId);
+  }
+
+  /**
+   * Get every exact target goal line configured for a league, ascending
+   */
+  getTargetGoalLines(leagueId: number): number[] {
+    const lines = this.getRules({ leagueId, enabled: true, market: config.getTotalMarket(leagueId) })
+      .filter((rule) => rule.goal_line != null)
+      .map((rule) => rule.goal_line as number);
+    return Array.from(new Set(lines)).sort((a, b) => a - b);
+  }
+
+  private toDbValue(column: string, value: any): any {
+    if (column === 'enabled') return value ? 1 : 0;
+    if (column === 'name' && typeof value === 'string') return value.trim();
+    return value ?? null;
+  }
+}
+
+export const rulesService = new RulesService();
+export default rulesService;
@@ -0,0 +1,130 @@
+import db from '../config/database';
+import { config } from '../config';
+import { Match, Streak } from '../models/types';
+import { telegramService } from './telegram.service';
+import { rulesService } from './rules.service';
+
+class StreaksService {
+  /**
+   * Extend or reset the league and player streaks with a finished match
+   * Recording the same match twice is a no-op
+   */
+  async recordFinishedMatch(match: Match): Promise<void> {
+    if (match.final_score_home == null || match.final_score_away == null) return;
+
+    const targetLine = match.target_line ?? rulesService.getTargetGoalLine(match.league_id);
+    const totalGoals = match.final_score_home + match.final_score_away;
+    // A total landing exactly on a whole target line is a push and leaves the over/under streak alone
+    const totalValue = totalGoals > targetLine ? 'over' : totalGoals < targetLine ? 'under' : null;
+    const touchValue = match.touched_target ? 'touched' : 'untouched';
+
+    const scopes: Array<[Streak['scope'], number | null | undefined]> = [
+      ['league', match.league_id],
+      ['player', match.home_player_id],
+      ['player', match.away_player_id],
+    ];
+
+    for (const [scope, scopeId] of scopes) {
+      if (scopeId == null) continue;
+
+      if (totalValue) {
+        await this.extendStreak(scope, scopeId, 'total', totalValue, targetLine, match);
+      }
+      await this.extendStreak(scope, scopeId, 'touch', touchValue, targetLine, match);
+    }
+  }
+
+  private async extendStreak(
+    scope: Streak['scope'],
+    scopeId: number,
+    kind: Streak['kind'],
+    value: Streak['value'],
+    targetLine: number,
+    match: Match
+  ): Promise<void> {
+    const existing = this.getStreak(scope, scopeId, kind);
+    if (existing?.last_match_id === match.match_id) return;
+
+    const continues = existing?.value === value;
+    const length = continues ? existing!.length + 1 : 1;
+
+    db.prepare(`
+      INSERT INTO streaks (scope, scope_id, kind, value, length, target_line, last_match_id, alerted_length)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0)
+      ON CONFLICT(scope, scope_id, kind) DO UPDATE SET
+        value = excluded.value,
+        length = excluded.length,
+        target_line = excluded.target_line,
+        last_match_id = excluded.last_match_id,
+        alerted_length = CASE WHEN ? THEN streaks.alerted_length ELSE 0 END,
+        updated_at = datetime('now')
+    `).run(scope, scopeId, kind, value, length, targetLine, match.match_id, continues ? 1 : 0);
+
+    const settings = config.streaks;
+    const alertLength = scope === 'league' ? settings.leagueLength : settings.playerLength;
+    if (!settings.alerts || !alertLength || length < alertLength) return;
+
+    // Each streak length is alerted once, even when a match is recorded again after a restart
+    const streak = this.getStreak(scope, scopeId, kind)!;
+    if (streak.length <= (streak.alerted_length ?? 0)) return;
+
+    const success = await telegramService.sendStreakAlert(streak, this.getScopeName(scope, scopeId), match);
+    if (success) {
+      db.prepare('UPDATE streaks SET alerted_length = ? WHERE id = ?').run(length, streak.id);
+    }
+  }
+
+  /**
+   * Get the current streak of one kind for a league or player
+   */
+  getStreak(scope: Streak['scope'], scopeId: number, kind: Streak['kind']): Streak | undefined {
+    return db.prepare(
+      'SELECT * FROM streaks WHERE scope = ? AND scope_id = ? AND kind = ?'
+    ).get(scope, scopeId, kind) as Streak | undefined;
+  }
+
+  /**
+   * Get current streaks, longest first
+   */
+  getStreaks(options: { scope?: string; kind?: string; minLength?: number; scopeId?: number } = {}): Array<Streak & { name: string }> {
+    let query = 'SELECT * FROM streaks WHERE 1=1';
+    const params: any[] = [];
+
+    if (options.scope) {
+      query += ' AND scope = ?';
+      params.push(options.scope);
+    }
+
+    if (options.kind) {
+      query += ' AND kind = ?';
+      params.push(options.kind);
+    }
+
+    if (options.scopeId !== undefined) {
+      query += ' AND scope_id = ?';
+      params.push(options.scopeId);
+    }
+
+    if (options.minLength) {
+      query += ' AND length >= ?';
+      params.push(options.minLength);
+    }
+
+    query += ' ORDER BY length DESC, updated_at DESC';
+
+    const streaks = db.prepare(query).all(...params) as Streak[];
+    return streaks.map((streak) => ({ ...streak, name: this.getScopeName(streak.scope, streak.scope_id) }));
+  }
+
+  private getScopeName(scope: Streak['scope'], scopeId: number): string {
+    if (scope === 'league') {
+      return config.leagueNames[scopeId] || `League ${scopeId}`;
+    }
+
+    const player = db.prepare('SELECT name FROM players WHERE id = ?').get(scopeId) as { name: string } | undefined;
+    return player?.name || `Player ${scopeId}`;
+  }
+}
+
+export const streaksService = new StreaksService();
+export default streaksService;
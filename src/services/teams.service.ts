@@ -0,0 +1,204 @@
+import db from '../config/database';
+import { InplayMatch, Team, TeamAlias } from '../models/types';
+import { UNKNOWN_TEAM, formatTeamName, teamNameKey } from '../utils/team';
+
+class TeamsService {
+  /**
+   * Resolve a team name to a team ID, creating the team on first sight
+   * Lookup order: alias, BetsAPI team ID, folded name. Returns null when the feed gave no name
+   */
+  resolveTeam(name: string, apiId?: string | null): number | null {
+    const key = teamNameKey(name);
+    if (!key || name === UNKNOWN_TEAM) return null;
+
+    let team = this.getTeamByAlias(key);
+    if (!team && apiId) {
+      team = db.prepare('SELECT * FROM teams WHERE betsapi_id = ?').get(apiId) as Team | undefined;
+      if (team && team.name_key !== key && !this.findTeam(name)) {
+        // A new spelling of a known BetsAPI team - record it so feeds without IDs resolve it too
+        db.prepare('INSERT OR IGNORE INTO team_aliases (alias, alias_key, team_id) VALUES (?, ?, ?)')
+          .run(formatTeamName(name), key, team.id);
+        console.log(`🏷️ Team alias learned: "${formatTeamName(name)}" → ${team.name}`);
+      }
+    }
+    if (!team) {
+      team = db.prepare('SELECT * FROM teams WHERE name_key = ?').get(key) as Team | undefined;
+    }
+
+    if (!team) {
+      const result = db.prepare(`
+        INSERT INTO teams (name, name_key, betsapi_id) VALUES (?, ?, ?)
+      `).run(formatTeamName(name), key, apiId && !this.isApiIdTaken(apiId) ? apiId : null);
+      return Number(result.lastInsertRowid);
+    }
+
+    db.prepare(`
+      UPDATE teams SET last_seen = datetime('now'),
+        betsapi_id = COALESCE(betsapi_id, ?)
+      WHERE id = ?
+    `).run(apiId && !this.isApiIdTaken(apiId) ? apiId : null, team.id);
+    return team.id;
+  }
+
+  /**
+   * Resolve a tracked match's teams and link them to the match
+   */
+  linkMatchTeams(
+    matchId: string,
+    match: Pick<InplayMatch, 'homeTeam' | 'awayTeam' | 'homeTeamApiId' | 'awayTeamApiId'>
+  ): void {
+    const home = this.resolveTeam(match.homeTeam, match.homeTeamApiId);
+    const away = this.resolveTeam(match.awayTeam, match.awayTeamApiId);
+    if (home === null && away === null) return;
+
+    db.prepare(`
+      UPDATE matches SET home_team_id = ?, away_team_id = ?
+      WHERE match_id = ?
+    `).run(home, away, matchId);
+  }
+
+  /**
+   * Find a team by name or alias without creating it
+   */
+  findTeam(name: string): Team | undefined {
+    const key = teamNameKey(name);
+    if (!key) return undefined;
+
+    return this.getTeamByAlias(key)
+      ?? db.prepare('SELECT * FROM teams WHERE name_key = ?').get(key) as Team | undefined;
+  }
+
+  /**
+   * Get a single team by ID
+   */
+  getTeam(id: number): Team | undefined {
+    return db.prepare('SELECT * FROM teams WHERE id = ?').get(id) as Team | undefined;
+  }
+
+  /**
+   * Get teams with their tracked match counts, most recently seen first
+   */
+  getTeams(options: { search?: string; limit?: number } = {}): Array<Team & { matches: number }> {
+    let query = `
+      SELECT t.*,
+        (SELECT COUNT(*) FROM matches m WHERE m.home_team_id = t.id OR m.away_team_id = t.id) as matches
+      FROM teams t
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+
+    if (options.search) {
+      query += ' AND (t.name LIKE ? OR t.id IN (SELECT team_id FROM team_aliases WHERE alias LIKE ?))';
+      params.push(`%${options.search}%`, `%${options.search}%`);
+    }
+
+    query += ' ORDER BY t.last_seen DESC LIMIT ?';
+    params.push(options.limit || 100);
+
+    return db.prepare(query).all(...params) as Array<Team & { matches: number }>;
+  }
+
+  /**
+   * Get team aliases, optionally for one team
+   */
+  getAliases(teamId?: number): Array<TeamAlias & { team_name: string }> {
+    let query = `
+      SELECT a.*, t.name as team_name FROM team_aliases a
+      JOIN teams t ON t.id = a.team_id
+    `;
+    const params: any[] = [];
+
+    if (teamId) {
+      query += ' WHERE a.team_id = ?';
+      params.push(teamId);
+    }
+
+    query += ' ORDER BY t.name ASC, a.alias ASC';
+
+    return db.prepare(query).all(...params) as Array<TeamAlias & { team_name: string }>;
+  }
+
+  /**
+   * Validate alias input, returns an error message or null if valid
+   */
+  validateAlias(input: { alias?: any; teamId?: any }): string | null {
+    if (typeof input.alias !== 'string' || !teamNameKey(input.alias)) {
+      return 'alias is required';
+    }
+
+    if (typeof input.teamId !== 'number' || !Number.isInteger(input.teamId) || input.teamId <= 0) {
+      return 'teamId must be a positive integer';
+    }
+
+    return null;
+  }
+
+  /**
+   * Add another spelling of a team
+   * When the spelling already has its own team, that team is merged in: its matches, aliases
+   * and BetsAPI ID move over, so stats and H2H see a single team
+   */
+  addAlias(alias: string, teamId: number): { alias: TeamAlias; mergedTeamId: number | null } {
+    const key = teamNameKey(alias);
+    const duplicate = db.prepare('SELECT * FROM teams WHERE name_key = ? AND id != ?').get(key, teamId) as Team | undefined;
+
+    const aliasId = db.transaction(() => {
+      if (duplicate) this.mergeTeam(duplicate, teamId);
+
+      const result = db.prepare(`
+        INSERT INTO team_aliases (alias, alias_key, team_id) VALUES (?, ?, ?)
+      `).run(formatTeamName(alias), key, teamId);
+      return Number(result.lastInsertRowid);
+    })();
+
+    if (duplicate) {
+      console.log(`🏷️ Merged team "${duplicate.name}" (${duplicate.id}) into team ${teamId}`);
+    }
+
+    return {
+      alias: db.prepare('SELECT * FROM team_aliases WHERE id = ?').get(aliasId) as TeamAlias,
+      mergedTeamId: duplicate?.id ?? null,
+    };
+  }
+
+  /**
+   * Get an alias by its folded spelling
+   */
+  getAliasByName(alias: string): TeamAlias | undefined {
+    return db.prepare('SELECT * FROM team_aliases WHERE alias_key = ?').get(teamNameKey(alias)) as TeamAlias | undefined;
+  }
+
+  /**
+   * Delete an alias - matches already merged into the team stay with it
+   */
+  deleteAlias(id: number): boolean {
+    return db.prepare('DELETE FROM team_aliases WHERE id = ?').run(id).changes > 0;
+  }
+
+  private getTeamByAlias(key: string): Team | undefined {
+    return db.prepare(`
+      SELECT t.* FROM team_aliases a JOIN teams t ON t.id = a.team_id WHERE a.alias_key = ?
+    `).get(key) as Team | undefined;
+  }
+
+  private isApiIdTaken(apiId: string): boolean {
+    return !!db.prepare('SELECT 1 FROM teams WHERE betsapi_id = ?').get(apiId);
+  }
+
+  private mergeTeam(from: Team, intoId: number): void {
+    db.prepare('UPDATE matches SET home_team_id = ? WHERE home_team_id = ?').run(intoId, from.id);
+    db.prepare('UPDATE matches SET away_team_id = ? WHERE away_team_id = ?').run(intoId, from.id);
+    db.prepare('UPDATE team_aliases SET team_id = ? WHERE team_id = ?').run(intoId, from.id);
+    db.prepare('DELETE FROM teams WHERE id = ?').run(from.id);
+    db.prepare(`
+      UPDATE teams SET
+        betsapi_id = COALESCE(betsapi_id, ?),
+        first_seen = MIN(first_seen, ?),
+        last_seen = MAX(last_seen, ?)
+      WHERE id = ?
+    `).run(from.betsapi_id, from.first_seen, from.last_seen, intoId);
+  }
+}
+
+export const teamsService = new TeamsService();
+export default teamsService;
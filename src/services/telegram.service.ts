@@ -1,6 +1,23 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { config } from '../config';
-import { Match, OddsHistory } from '../models/types';
+import { config, SportSettings } from '../config';
+import { Match, OddsHistory, GoalLineResult, LineMovementAlert, MatchLineAlert, HeadToHeadSummary, Streak, GoalModelEstimate, ValueAlert, MarketAlert, MarketReading } from '../models/types';
+import { MARKET_EXTRACTORS } from '../utils/markets';
+import { settleTotalLine, SettlementOutcome } from '../utils/settlement';
+
+const OUTCOME_LABELS: Record<SettlementOutcome, string> = {
+  win: '✅ WIN',
+  half_win: '✅ HALF WIN',
+  push: '↩️ PUSH',
+  half_loss: '❌ HALF LOSS',
+  loss: '❌ LOSS',
+};
+
+/**
+ * Escape the characters legacy Markdown treats as formatting, for text like rule, league and team names
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`\[])/g, '\\$1');
+}
 
 class TelegramService {
   private bot: TelegramBot | null = null;
@@ -22,7 +39,7 @@ class TelegramService {
    * Format detection alert message
    */
   private formatDetectionAlert(match: Match, oddsHistory?: OddsHistory[]): string {
-    const leagueName = config.leagueNames[match.league_id] || `League ${match.league_id}`;
+    const leagueName = escapeMarkdown(config.leagueNames[match.league_id] || `League ${match.league_id}`);
     const detectionTime = new Date(match.detection_time).toLocaleString();
 
     let oddsHistoryText = '';
@@ -36,7 +53,7 @@ class TelegramService {
     return `🚨 *ALERT: Asian 1.5 Detected!*
 
 📋 *League:* ${leagueName}
-⚽ *Match:* ${match.home_team} vs ${match.away_team}
+⚽ *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
 🕐 *Detection Time:* ${detectionTime}
 📊 *Current Odds:* ${match.detected_odds || 'N/A'}
 
@@ -48,20 +65,39 @@ ${oddsHistoryText ? `📈 *Odds History:*\n${oddsHistoryText}` : ''}
   /**
    * Format result alert message
    */
-  private formatResultAlert(match: Match): string {
-    const leagueName = config.leagueNames[match.league_id] || `League ${match.league_id}`;
+  private formatResultAlert(match: Match, lineAlerts: MatchLineAlert[] = []): string {
+    const leagueName = escapeMarkdown(config.leagueNames[match.league_id] || `League ${match.league_id}`);
+    const sport = this.getSport(match);
     const endTime = match.match_end_time
       ? new Date(match.match_end_time).toLocaleString()
       : 'N/A';
 
+    // Settle the over side of every alerted line at the price it was alerted at
+    let settlementText = '';
+    if (match.final_score_home != null && match.final_score_away != null) {
+      const finalScore = { home: match.final_score_home, away: match.final_score_away };
+      const sportId = match.sport_id ?? config.getLeagueSport(match.league_id);
+      settlementText = lineAlerts
+        .filter((lineAlert) => lineAlert.alert_sent)
+        .map((lineAlert) => {
+          const odds = lineAlert.alert_over_odds ?? lineAlert.over_odds;
+          const settlement = settleTotalLine(sportId, lineAlert.goal_line, 'over', finalScore, odds || 1);
+          if (!settlement) return '';
+          const payout = odds ? ` @ ${odds} → x${settlement.payoutMultiplier}` : '';
+          return `  Over ${lineAlert.goal_line}: ${OUTCOME_LABELS[settlement.outcome]}${payout}`;
+        })
+        .filter(Boolean)
+        .join('\n');
+    }
+
     return `✅ *RESULT: Match Finished*
 
-📋 *League:* ${leagueName}
-⚽ *Match:* ${match.home_team} vs ${match.away_team}
+📋 *League:* ${leagueName} (${sport.name})
+${sport.emoji} *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
 🏆 *Final Score:* ${match.final_score_home ?? '?'} - ${match.final_score_away ?? '?'}
 🕐 *End Time:* ${endTime}
-📊 *Asian Line at Detection:* ${match.detected_odds || 'N/A'}
-
+📊 *${sport.lineName} at Detection:* ${match.detected_odds || 'N/A'}
+${settlementText ? `\n🎯 *Settlement:*\n${settlementText}\n` : ''}
 🆔 Match ID: \`${match.match_id}\``;
   }
 
@@ -76,8 +112,8 @@ ${oddsHistoryText ? `📈 *Odds History:*\n${oddsHistoryText}` : ''}
   /**
    * Send result alert
    */
-  async sendResultAlert(match: Match): Promise<boolean> {
-    const message = this.formatResultAlert(match);
+  async sendResultAlert(match: Match, lineAlerts?: MatchLineAlert[]): Promise<boolean> {
+    const message = this.formatResultAlert(match, lineAlerts);
     return this.sendMessage(message);
   }
 
@@ -86,11 +122,12 @@ ${oddsHistoryText ? `📈 *Odds History:*\n${oddsHistoryText}` : ''}
    */
   private formatNewMatchAlert(match: Match, leagueName: string): string {
     const detectionTime = new Date(match.detection_time).toLocaleString();
+    const sport = this.getSport(match);
 
     return `📊 *New Match Tracking*
 
-📋 *League:* ${leagueName}
-⚽ *Match:* ${match.home_team} vs ${match.away_team}
+📋 *League:* ${escapeMarkdown(leagueName)} (${sport.name})
+${sport.emoji} *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
 🕐 *Started:* ${detectionTime}
 
 🆔 Match ID: \`${match.match_id}\``;
@@ -109,50 +146,200 @@ ${oddsHistoryText ? `📈 *Odds History:*\n${oddsHistoryText}` : ''}
    */
   private formatTargetDetectionAlert(
     match: Match,
-    goalLineResult: {
-      handicap: number;
-      overOdds: string;
-      underOdds: string;
-      score: string;
-    },
-    targetGoalLine: number
+    goalLineResult: GoalLineResult,
+    targetGoalLine: number,
+    ruleName?: string,
+    headToHead?: HeadToHeadSummary,
+    estimate?: GoalModelEstimate | null
   ): string {
-    const leagueName = config.leagueNames[match.league_id] || `League ${match.league_id}`;
+    const leagueName = escapeMarkdown(config.leagueNames[match.league_id] || `League ${match.league_id}`);
+    const sport = this.getSport(match);
     const detectionTime = new Date(match.detection_time).toLocaleString();
+    const matchClock = goalLineResult.minute != null
+      ? `${goalLineResult.minute}'${String(goalLineResult.second ?? 0).padStart(2, '0')}`
+      : 'N/A';
 
-    return `🚨🚨🚨 *TARGET GOAL LINE ${targetGoalLine} DETECTED!* 🚨🚨🚨
+    return `🚨🚨🚨 *TARGET ${sport.lineName.toUpperCase()} ${targetGoalLine} DETECTED!* 🚨🚨🚨
 
-📋 *League:* ${leagueName}
-⚽ *Match:* ${match.home_team} vs ${match.away_team}
+📋 *League:* ${leagueName} (${sport.name})
+${sport.emoji} *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
 🎯 *Current Score:* ${goalLineResult.score}
-
-📊 *Asian Goal Line:* ${goalLineResult.handicap}
+⏱️ *Match Minute:* ${matchClock}
+${ruleName ? `🧩 *Rule:* ${escapeMarkdown(ruleName)}\n` : ''}
+📊 *${sport.lineName}:* ${goalLineResult.handicap}
    ⬆️ Over ${targetGoalLine}: ${goalLineResult.overOdds}
    ⬇️ Under ${targetGoalLine}: ${goalLineResult.underOdds}
-
-🕐 *Detection Time:* ${detectionTime}
+${estimate ? `🧮 *Fair Odds:* Over ${estimate.fairOverOdds} | Under ${estimate.fairUnderOdds} (xG ${estimate.expectedTotal}, ${estimate.source})\n` : ''}
+${headToHead && headToHead.matches > 0 ? `${this.formatHeadToHead(headToHead, targetGoalLine)}\n\n` : ''}🕐 *Detection Time:* ${detectionTime}
 🆔 Match ID: \`${match.match_id}\`
 
 ⚡ *Action Required!*`;
   }
 
+  /**
+   * Format the head-to-head summary section of a target alert
+   */
+  private formatHeadToHead(headToHead: HeadToHeadSummary, targetGoalLine: number): string {
+    const lastResults = headToHead.lastResults
+      .map((result) => `   • ${escapeMarkdown(result.homeTeam)} ${result.score} ${escapeMarkdown(result.awayTeam)}`)
+      .join('\n');
+
+    return `🤝 *H2H:* ${headToHead.matches} meetings (${headToHead.homeWins}W ${headToHead.draws}D ${headToHead.awayWins}L)
+   ⚽ Avg goals: ${headToHead.avgTotalGoals}
+   ⬆️ Over ${targetGoalLine}: ${headToHead.overRate}% (${headToHead.overs}/${headToHead.matches})
+${lastResults}`;
+  }
+
   /**
    * Send target goal line detection alert (league-specific)
    */
   async sendTargetDetectionAlert(
     match: Match,
-    goalLineResult: {
-      handicap: number;
-      overOdds: string;
-      underOdds: string;
-      score: string;
-    },
-    targetGoalLine: number
+    goalLineResult: GoalLineResult,
+    targetGoalLine: number,
+    ruleName?: string,
+    headToHead?: HeadToHeadSummary,
+    estimate?: GoalModelEstimate | null
   ): Promise<boolean> {
-    const message = this.formatTargetDetectionAlert(match, goalLineResult, targetGoalLine);
+    const message = this.formatTargetDetectionAlert(match, goalLineResult, targetGoalLine, ruleName, headToHead, estimate);
+    return this.sendMessage(message);
+  }
+
+  /**
+   * Format goal line movement alert message
+   */
+  private formatLineMovementAlert(match: Match, movement: LineMovementAlert): string {
+    const leagueName = escapeMarkdown(config.leagueNames[match.league_id] || `League ${match.league_id}`);
+    const sport = this.getSport(match);
+    const lineName = sport.lineName.toUpperCase();
+    const headers: Record<LineMovementAlert['type'], string> = {
+      drop: `📉 *${lineName} DROP*`,
+      rise: `📈 *${lineName} RISE*`,
+      against_score: `⚠️ *${lineName} MOVED AGAINST THE SCORE*`,
+    };
+    const change = movement.to_line - movement.from_line;
+    const windowMinutes = Math.round((movement.window_seconds || 0) / 6) / 10;
+    const minuteRange = movement.minute_before != null && movement.minute_after != null
+      ? ` (minute ${movement.minute_before}' → ${movement.minute_after}')`
+      : '';
+
+    return `${headers[movement.type]}
+
+📋 *League:* ${leagueName} (${sport.name})
+${sport.emoji} *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
+
+📊 *${sport.lineName}:* ${movement.from_line} → ${movement.to_line} (${change > 0 ? '+' : ''}${change})
+🎯 *Score:* ${movement.score_before || 'N/A'} → ${movement.score_after || 'N/A'}
+🕐 *Window:* last ${windowMinutes} min${minuteRange}
+
+🆔 Match ID: \`${match.match_id}\``;
+  }
+
+  /**
+   * Send goal line movement alert
+   */
+  async sendLineMovementAlert(match: Match, movement: LineMovementAlert): Promise<boolean> {
+    const message = this.formatLineMovementAlert(match, movement);
+    return this.sendMessage(message);
+  }
+
+  /**
+   * Format value bet alert message
+   */
+  private formatValueAlert(match: Match, valueAlert: ValueAlert, estimate: GoalModelEstimate): string {
+    const leagueName = escapeMarkdown(config.leagueNames[match.league_id] || `League ${match.league_id}`);
+    const sport = this.getSport(match);
+    const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+    return `💎 *VALUE: ${valueAlert.side.toUpperCase()} ${valueAlert.goal_line}* 💎
+
+📋 *League:* ${leagueName} (${sport.name})
+${sport.emoji} *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
+🎯 *Score:* ${valueAlert.score || 'N/A'} (${estimate.minute}')
+
+💰 *Odds:* ${valueAlert.odds} | *Fair:* ${valueAlert.fair_odds}
+🧮 *Model:* ${percent(valueAlert.model_probability)} vs *Implied:* ${percent(valueAlert.implied_probability)} (+${percent(valueAlert.edge)})
+📈 *Expected ${sport.unit}:* ${estimate.expectedTotal} total, ${estimate.expectedRemaining} remaining (${estimate.source} rate, ${estimate.sample} matches)
+
+🆔 Match ID: \`${match.match_id}\``;
+  }
+
+  /**
+   * Send value bet alert
+   */
+  async sendValueAlert(match: Match, valueAlert: ValueAlert, estimate: GoalModelEstimate): Promise<boolean> {
+    const message = this.formatValueAlert(match, valueAlert, estimate);
+    return this.sendMessage(message);
+  }
+
+  /**
+   * Format market rule alert message
+   */
+  private formatMarketAlert(match: Match, marketAlert: MarketAlert, reading: MarketReading, ruleName: string): string {
+    const leagueName = escapeMarkdown(config.leagueNames[match.league_id] || `League ${match.league_id}`);
+    const sport = this.getSport(match);
+    const marketName = MARKET_EXTRACTORS[marketAlert.market]?.name || marketAlert.market;
+    const line = marketAlert.handicap != null ? ` ${marketAlert.handicap}` : '';
+    const prices = Object.entries(reading.prices)
+      .map(([selection, odds]) => `${selection.charAt(0).toUpperCase()}${selection.slice(1)}: ${odds}`)
+      .join(' | ');
+
+    return `📊 *${marketName.toUpperCase()}${line}* 📊
+
+📋 *League:* ${leagueName} (${sport.name})
+${sport.emoji} *Match:* ${escapeMarkdown(match.home_team)} vs ${escapeMarkdown(match.away_team)}
+🎯 *Score:* ${marketAlert.score || 'N/A'}${marketAlert.match_minute != null ? ` (${marketAlert.match_minute}')` : ''}
+📏 *Rule:* ${escapeMarkdown(ruleName)}
+
+💰 ${prices}${marketAlert.selection ? `\n✅ *Selection:* ${marketAlert.selection} @ ${marketAlert.odds ?? 'N/A'}` : ''}
+
+🆔 Match ID: \`${match.match_id}\``;
+  }
+
+  /**
+   * Send market rule alert
+   */
+  async sendMarketAlert(match: Match, marketAlert: MarketAlert, reading: MarketReading, ruleName: string): Promise<boolean> {
+    const message = this.formatMarketAlert(match, marketAlert, reading, ruleName);
+    return this.sendMessage(message);
+  }
+
+  /**
+   * Format streak alert message
+   */
+  private formatStreakAlert(streak: Streak, name: string, match: Match): string {
+    const sport = this.getSport(match);
+    const descriptions: Record<Streak['value'], string> = {
+      over: `finished *OVER* ${streak.target_line}`,
+      under: `finished *UNDER* ${streak.target_line}`,
+      touched: `*touched* the target line`,
+      untouched: `*didn't touch* the target line`,
+    };
+
+    return `🔥 *STREAK ALERT* 🔥
+
+${streak.scope === 'league' ? '📋 *League:*' : '👤 *Player:*'} ${escapeMarkdown(name)}
+📈 *${streak.length}* matches in a row ${descriptions[streak.value]}
+
+${sport.emoji} *Last Match:* ${escapeMarkdown(match.home_team)} ${match.final_score_home}-${match.final_score_away} ${escapeMarkdown(match.away_team)}
+🆔 Match ID: \`${match.match_id}\``;
+  }
+
+  /**
+   * Send streak alert
+   */
+  async sendStreakAlert(streak: Streak, name: string, match: Match): Promise<boolean> {
+    const message = this.formatStreakAlert(streak, name, match);
     return this.sendMessage(message);
   }
 
+  /**
+   * Get the sport settings of a match (matches stored before multi-sport support are soccer)
+   */
+  private getSport(match: Match): SportSettings {
+    return config.getSport(match.sport_id ?? config.getLeagueSport(match.league_id));
+  }
+
   /**
    * Send message with retry logic
    */
@@ -0,0 +1,81 @@
+import { config } from '../config';
+import db, { initializeDatabase } from '../config/database';
+import { BetsAPIResult } from '../models/types';
+import { betsapiService } from './betsapi.service';
+import { streaksService } from './streaks.service';
+import { trackerService } from './tracker.service';
+
+beforeAll(() => {
+  initializeDatabase();
+});
+
+describe('trackerService.backfillMissingScores', () => {
+  const LEAGUE = 22614;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(betsapiService, 'getMatchResult').mockResolvedValue({ ok: true, data: { ss: '2-1' } as BetsAPIResult });
+
+    db.prepare(`
+      INSERT INTO matches (match_id, league_id, home_team, away_team, detection_time, status, bet365_id, target_line)
+      VALUES ('m1', ?, 'Home', 'Away', '2024-01-01T12:00:00.000Z', 'finished', 'e1', 2.5)
+    `).run(LEAGUE);
+    db.prepare(`
+      INSERT INTO paper_bets (match_id, league_id, home_team, away_team, strategy, side, goal_line, odds, stake, bankroll_before)
+      VALUES ('m1', ?, 'Home', 'Away', 'flat', 'over', 2.5, 1.9, 10, 1000)
+    `).run(LEAGUE);
+    db.prepare(`
+      INSERT INTO match_line_alerts (match_id, goal_line, score_at_touch, over_odds, under_odds) VALUES ('m1', ?, '1-0', 1.9, 1.9)
+    `).run(3);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills in the score and settles the match', async () => {
+    const result = await trackerService.backfillMissingScores();
+    expect(result).toMatchObject({ processed: 1, updated: 1, failed: 0 });
+
+    expect(trackerService.getMatch('m1')).toMatchObject({ final_score_home: 2, final_score_away: 1 });
+    expect(db.prepare("SELECT status, outcome, profit FROM paper_bets WHERE match_id = 'm1'").get())
+      .toEqual({ status: 'settled', outcome: 'win', profit: 9 });
+    expect(trackerService.getLineAlerts('m1')).toEqual([
+      expect.objectContaining({ goal_line: 3, result: 'push', over_outcome: 'push', under_outcome: 'push' }),
+    ]);
+    expect(streaksService.getStreak('league', LEAGUE, 'total')).toMatchObject({ value: 'over', length: 1, last_match_id: 'm1' });
+  });
+});
+
+describe('trackerService polling', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    trackerService.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('skips ticks while the previous poll is still running', async () => {
+    let finishPoll!: () => void;
+    const inplay = jest.spyOn(betsapiService, 'getInplayFilterMatches').mockImplementation(
+      () => new Promise((resolve) => {
+        finishPoll = () => resolve({ ok: true, data: [] });
+      })
+    );
+
+    trackerService.start();
+    await jest.advanceTimersByTimeAsync(config.pollingInterval * 3);
+    expect(inplay).toHaveBeenCalledTimes(1);
+
+    finishPoll();
+    await jest.advanceTimersByTimeAsync(config.pollingInterval);
+    expect(inplay).toHaveBeenCalledTimes(2);
+  });
+});
@@ -2,10 +2,37 @@ import db from '../config/database';
 import { config } from '../config';
 import { betsapiService } from './betsapi.service';
 import { telegramService } from './telegram.service';
-import { Match, OddsHistory, BetsAPIMatch, Bet365ParsedMatch } from '../models/types';
+import { rulesService } from './rules.service';
+import { movementService } from './movement.service';
+import { paperTradingService } from './paper.service';
+import { playersService } from './players.service';
+import { teamsService } from './teams.service';
+import { streaksService } from './streaks.service';
+import { modelService } from './model.service';
+import { bookmakerService } from './bookmaker.service';
+import { marketsService } from './markets.service';
+import { GOAL_LINE_MARKET } from '../utils/markets';
+import { hitRateOf, settleTotalLine, summarizeBets, BetSummary, Settlement, SettlementOutcome, WIN_SHARE } from '../utils/settlement';
+import { parseDbTime, WEEKDAYS, zonedTimeParts } from '../utils/time';
+import {
+  Match,
+  OddsHistory,
+  BetsAPIMatch,
+  Bet365ParsedMatch,
+  DetectionRule,
+  MatchLineAlert,
+  LineTouchStats,
+  InplayMatch,
+  GoalLineResult,
+  OddsSnapshot,
+  LiveStats,
+  LiveStatsSnapshot,
+  RuleContext,
+} from '../models/types';
 
 class TrackerService {
   private isRunning = false;
+  private isPolling = false;
   private pollingInterval: NodeJS.Timeout | null = null;
 
   /**
@@ -24,16 +51,49 @@ class TrackerService {
 
     // Initial poll
     console.log('[Tracker] Running initial poll...');
-    this.poll()
+    this.runPoll()
       .then(() => console.log('[Tracker] Initial poll completed'))
       .catch((err) => console.error('[Tracker] Initial poll error:', err));
 
     // Set up interval for subsequent polls
+    this.schedule();
+
+    console.log('[Tracker] Service started, interval set');
+  }
+
+  /**
+   * Restart the polling interval with the current config.pollingInterval, when running
+   */
+  reschedule(): void {
+    if (!this.isRunning || !this.pollingInterval) return;
+
+    clearInterval(this.pollingInterval);
+    this.schedule();
+    console.log(`[Tracker] Polling interval changed to ${config.pollingInterval}ms`);
+  }
+
+  private schedule(): void {
     this.pollingInterval = setInterval(() => {
-      this.poll().catch((err) => console.error('[Tracker] Poll error:', err));
+      this.runPoll().catch((err) => console.error('[Tracker] Poll error:', err));
     }, config.pollingInterval);
+  }
 
-    console.log('[Tracker] Service started, interval set');
+  /**
+   * Run a poll unless the previous one is still going
+   * A poll can wait on the rate limiter for a long time, and overlapping polls would process matches twice
+   */
+  private async runPoll(): Promise<void> {
+    if (this.isPolling) {
+      console.warn('[Tracker] Previous poll still running, skipping this one');
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      await this.poll();
+    } finally {
+      this.isPolling = false;
+    }
   }
 
   /**
@@ -53,10 +113,22 @@ class TrackerService {
    */
   private async poll(): Promise<void> {
     try {
+      if (betsapiService.isCircuitOpen()) {
+        console.warn(`[Tracker] BetsAPI circuit open, skipping poll until ${betsapiService.getCircuitStatus().retryAt}`);
+        return;
+      }
+
       console.log(`[Tracker] [${new Date().toISOString()}] Polling for matches...`);
 
       // Get all live matches from target leagues using inplay_filter API
-      const liveMatches = await betsapiService.getInplayFilterMatches();
+      const inplay = await betsapiService.getInplayFilterMatches();
+      if (!inplay.ok) {
+        // Without the live feed every tracked match would look finished, so skip the whole cycle
+        console.error(`[Tracker] Inplay fetch failed (${inplay.error.kind}): ${inplay.error.message}, skipping this poll`);
+        return;
+      }
+
+      const liveMatches = inplay.data;
       console.log(`[Tracker] Found ${liveMatches.length} live matches in target leagues`);
 
       // Process each match - check Asian Goal Line
@@ -79,62 +151,90 @@ class TrackerService {
   /**
    * Process a match and check Asian Goal Line
    */
-  private async processMatchWithGoalLine(match: {
-    id: string;
-    ourEventId: string;
-    bet365Id: string;
-    leagueId: number;
-    leagueName: string;
-    homeTeam: string;
-    awayTeam: string;
-    score: string;
-  }): Promise<void> {
+  private async processMatchWithGoalLine(match: InplayMatch): Promise<void> {
     try {
       const matchId = match.id;
 
       // Check if match already exists in database
       const existingMatch = this.getMatch(matchId);
 
-      // Check Asian Goal Line using our_event_id (primary method)
-      let goalLineResult = await betsapiService.checkAsianGoalLine(match.ourEventId);
+      // Check the total line of the match's sport using our_event_id (primary method)
+      const totalMarket = config.getSport(match.sportId).totalMarket;
+      const primary = await betsapiService.checkAsianGoalLine(match.ourEventId, totalMarket);
+      let goalLineResult: GoalLineResult | null = primary.ok ? primary.data : null;
+      if (goalLineResult) {
+        goalLineResult.source = 'odds_summary';
+      }
+      if (!primary.ok) {
+        console.warn(`[Tracker] Odds fetch failed for match ${matchId} (${primary.error.kind}), tracking the score only`);
+      }
 
-      // If primary method fails, try fallback with bet365 prematch odds
-      if (!goalLineResult && match.bet365Id) {
+      // If the match has no odds summary line, try fallback with bet365 prematch odds (Asian goal line only)
+      if (primary.ok && !goalLineResult && match.bet365Id && totalMarket === GOAL_LINE_MARKET) {
         const prematchOdds = await betsapiService.getBet365PrematchOdds(match.bet365Id);
-        if (prematchOdds) {
-          const prematchGoalLine = betsapiService.extractPrematchAsianGoalLine(prematchOdds);
+        if (prematchOdds.ok && prematchOdds.data) {
+          const prematchGoalLine = betsapiService.extractPrematchAsianGoalLine(prematchOdds.data);
           if (prematchGoalLine) {
             goalLineResult = {
               handicap: prematchGoalLine.handicap,
               overOdds: prematchGoalLine.overOdds,
               underOdds: prematchGoalLine.underOdds,
               score: match.score,
+              source: 'prematch',
             };
             console.log(`[Tracker] Got goal line from prematch odds: ${prematchGoalLine.handicap}`);
           }
         }
       }
 
-      // Get target goal line for this league
-      const targetGoalLine = config.getTargetGoalLine(match.leagueId);
-
       if (goalLineResult) {
+        // Stamp the reading with the live match clock
+        goalLineResult = { ...goalLineResult, minute: match.minute, second: match.second };
         const { handicap, overOdds, underOdds } = goalLineResult;
 
-        // Check if current goal line matches the target for this league
-        const isTargetGoalLine = handicap === targetGoalLine;
+        // Evaluate detection rules against the current match state (rules are re-read every poll)
+        const overPrice = parseFloat(overOdds) || null;
+        const underPrice = parseFloat(underOdds) || null;
+        const ruleContext: RuleContext = {
+          leagueId: match.leagueId,
+          market: totalMarket,
+          handicap,
+          score: match.score,
+          minute: match.minute,
+          overOdds: overPrice,
+          underOdds: underPrice,
+          prices: { over: overPrice, under: underPrice },
+        };
+        const lineRules = rulesService.findLineMatchingRules(ruleContext);
+        const targetGoalLine = handicap;
+
+        if (lineRules.length > 0) {
+          // Goal line is at a target - this is what we're looking for!
+          // Only alert when a rule's price bounds and the league's odds range both accept the price
+          const priceRule = lineRules.find((rule) => rulesService.matchesOdds(rule, ruleContext));
+          const priceAccepted = !!priceRule && rulesService.isWithinOddsRange(ruleContext);
+          const matchedRule = priceRule ?? lineRules[0];
 
-        if (isTargetGoalLine) {
-          // Asian Goal Line matches target - this is what we're looking for!
           if (!existingMatch) {
-            // New target detection - save and alert
-            await this.handleTargetGoalLineDetection(match, goalLineResult, targetGoalLine);
+            // New target detection - save and alert (or record the price rejection)
+            await this.handleTargetGoalLineDetection(match, goalLineResult, targetGoalLine, matchedRule, priceAccepted);
           } else {
-            // Match exists - check if we need to send alert
-            if (!existingMatch.alert_sent) {
-              // First time seeing target for this match - mark it and send alert
-              this.markMatchAsTouchedTarget(matchId, handicap, match.score, targetGoalLine);
-              await this.sendTargetDetectionAlert(existingMatch, goalLineResult, targetGoalLine);
+            // Match exists - alert state is kept per goal line, so each target line fires once
+            const lineAlert = this.getLineAlert(matchId, handicap);
+            if (!lineAlert?.alert_sent) {
+              if (existingMatch.touched_target) {
+                // Another target line was touched earlier - keep its detected_odds
+                this.updateMatchScoreAndGoalLine(matchId, match.score, handicap);
+              } else {
+                // First time seeing a target for this match - mark it
+                this.markMatchAsTouchedTarget(matchId, handicap, match.score, targetGoalLine);
+              }
+
+              if (priceAccepted) {
+                await this.sendTargetDetectionAlert(existingMatch, goalLineResult, targetGoalLine, matchedRule);
+              } else {
+                this.recordPriceRejected(matchId, targetGoalLine, matchedRule, goalLineResult, lineAlert);
+              }
             } else {
               // Already touched target before - update current_goal_line and score (keep detected_odds)
               this.updateMatchScoreAndGoalLine(matchId, match.score, handicap);
@@ -145,7 +245,7 @@ class TrackerService {
           if (!existingMatch) {
             // New match - save with current goal line
             await this.saveMatchWithGoalLine(match, handicap);
-          } else if (existingMatch.touched_15) {
+          } else if (existingMatch.touched_target) {
             // Match previously touched target - DON'T overwrite detected_odds, but update current_goal_line
             this.updateMatchScoreAndGoalLine(matchId, match.score, handicap);
           } else {
@@ -155,7 +255,18 @@ class TrackerService {
         }
 
         // Always save odds history for tracking goal line changes
-        this.saveGoalLineHistory(matchId, handicap, overOdds, underOdds);
+        this.saveGoalLineHistory(matchId, handicap, overOdds, underOdds, match.minute, match.second);
+        this.saveOddsSnapshot(matchId, goalLineResult, match.score);
+        if (goalLineResult.bookmakers?.length) {
+          bookmakerService.saveBookmakerOdds(matchId, goalLineResult.bookmakers, match.score, match.minute);
+        }
+
+        // Check the timeline for sharp goal line moves and the model for value
+        const trackedMatch = this.getMatch(matchId);
+        if (trackedMatch) {
+          await movementService.checkLineMovement(trackedMatch, { ...goalLineResult, score: match.score });
+          await modelService.checkValue(trackedMatch, { ...goalLineResult, score: match.score });
+        }
       } else {
         // No goal line data available - just track the match with score
         console.log(`[Tracker] No Asian Goal Line data for match ${match.id} (${match.homeTeam} vs ${match.awayTeam})`);
@@ -166,6 +277,19 @@ class TrackerService {
           this.updateMatchScore(matchId, match.score);
         }
       }
+
+      // Store the other tracked markets and check them against market rules
+      const trackedMarkets = marketsService.getTrackedMarkets();
+      const marketMatch = trackedMarkets.length > 0 ? this.getMatch(matchId) : undefined;
+      if (marketMatch) {
+        const readings = await betsapiService.checkMarkets(match.ourEventId, trackedMarkets);
+        if (readings.ok) {
+          await marketsService.processReadings(marketMatch, readings.data, match.minute);
+        }
+      }
+
+      await this.saveLiveStats(match);
+      this.updateMatchMinute(matchId, match.minute);
     } catch (error) {
       console.error(`[Tracker] Error processing match ${match.id}:`, error);
     }
@@ -175,54 +299,74 @@ class TrackerService {
    * Handle new target goal line detection
    */
   private async handleTargetGoalLineDetection(
-    match: {
-      id: string;
-      ourEventId: string;
-      bet365Id: string;
-      leagueId: number;
-      leagueName: string;
-      homeTeam: string;
-      awayTeam: string;
-      score: string;
-    },
-    goalLineResult: {
-      handicap: number;
-      overOdds: string;
-      underOdds: string;
-      score: string;
-    },
-    targetGoalLine: number
+    match: InplayMatch,
+    goalLineResult: GoalLineResult,
+    targetGoalLine: number,
+    rule: DetectionRule,
+    priceAccepted: boolean
   ): Promise<void> {
     const matchId = match.id;
     const now = new Date().toISOString();
 
-    // Insert match into database with target goal line and touched_15 = 1 (touched_target)
+    // Insert match into database with the target goal line it touched and touched_target = 1
     const stmt = db.prepare(`
-      INSERT INTO matches (match_id, bet365_id, league_id, home_team, away_team, detection_time, detected_odds, current_goal_line, current_score, status, touched_15)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'live', 1)
+      INSERT INTO matches (match_id, bet365_id, league_id, sport_id, home_team, away_team, detection_time, detected_odds, current_goal_line, current_score, status, target_line, touched_target)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'live', ?, 1)
     `);
 
     stmt.run(
       matchId,
       match.bet365Id, // Store actual bet365 fixture ID for result lookup
       match.leagueId,
+      match.sportId,
       match.homeTeam,
       match.awayTeam,
       now,
       goalLineResult.handicap, // detected_odds - stays at target
       goalLineResult.handicap, // current_goal_line - will be updated as it changes
-      match.score
+      match.score,
+      targetGoalLine
     );
+    playersService.linkMatchPlayers(matchId, match.homeTeam, match.awayTeam);
+    teamsService.linkMatchTeams(matchId, match);
 
-    console.log(`🎯 ALERT: Target Goal Line ${targetGoalLine} detected!`);
+    console.log(`🎯 ALERT: Target Goal Line ${targetGoalLine} detected! (rule: ${rule.name})`);
     console.log(`   Match: ${match.homeTeam} vs ${match.awayTeam} (${match.leagueName})`);
     console.log(`   Score: ${match.score}`);
     console.log(`   Over: ${goalLineResult.overOdds} | Under: ${goalLineResult.underOdds}`);
 
+    if (!priceAccepted) {
+      this.recordPriceRejected(matchId, targetGoalLine, rule, goalLineResult);
+      return;
+    }
+
     // Get the saved match and send alert
     const savedMatch = this.getMatch(matchId);
     if (savedMatch) {
-      await this.sendTargetDetectionAlert(savedMatch, goalLineResult, targetGoalLine);
+      await this.sendTargetDetectionAlert(savedMatch, goalLineResult, targetGoalLine, rule);
+    }
+  }
+
+  /**
+   * Record a target touch whose price is out of range - the alert follows
+   * on a later poll if the price comes into range while the line is still at target
+   */
+  private recordPriceRejected(
+    matchId: string,
+    goalLine: number,
+    rule: DetectionRule,
+    goalLineResult: GoalLineResult,
+    lineAlert?: MatchLineAlert
+  ): void {
+    this.recordLineTouch(matchId, goalLine, rule, goalLineResult);
+
+    db.prepare(`
+      UPDATE match_line_alerts SET status = 'price_rejected'
+      WHERE match_id = ? AND goal_line = ? AND alert_sent = 0
+    `).run(matchId, goalLine);
+
+    if (lineAlert?.status !== 'price_rejected') {
+      console.log(`💸 Target ${goalLine} touched but price rejected for match ${matchId} (Over: ${goalLineResult.overOdds} | Under: ${goalLineResult.underOdds})`);
     }
   }
 
@@ -231,23 +375,106 @@ class TrackerService {
    */
   private async sendTargetDetectionAlert(
     match: Match,
-    goalLineResult: {
-      handicap: number;
-      overOdds: string;
-      underOdds: string;
-      score: string;
-    },
-    targetGoalLine: number
+    goalLineResult: GoalLineResult,
+    targetGoalLine: number,
+    rule: DetectionRule
   ): Promise<void> {
-    const success = await telegramService.sendTargetDetectionAlert(match, goalLineResult, targetGoalLine);
+    // Record the touch for this line before alerting so it counts even if Telegram fails
+    this.recordLineTouch(match.match_id, targetGoalLine, rule, goalLineResult);
+    db.prepare(`
+      UPDATE match_line_alerts SET status = 'touched'
+      WHERE match_id = ? AND goal_line = ? AND alert_sent = 0
+    `).run(match.match_id, targetGoalLine);
+
+    // Place virtual bets at the alert price (no-op unless paper trading is enabled)
+    paperTradingService.placeBets(match, goalLineResult, targetGoalLine, rule.id);
+
+    const headToHead = playersService.getHeadToHead(match.home_team, match.away_team, {
+      line: targetGoalLine,
+      limit: config.headToHead.lastResults,
+    });
+    const estimate = modelService.estimate(match, goalLineResult);
+    const success = await telegramService.sendTargetDetectionAlert(
+      match,
+      goalLineResult,
+      targetGoalLine,
+      rule.name,
+      headToHead,
+      estimate
+    );
 
     if (success) {
-      // Mark both alert_sent and touched_15 (touched_target)
+      // Mark both alert_sent and touched_target
       const stmt = db.prepare(`
-        UPDATE matches SET alert_sent = 1, touched_15 = 1, updated_at = datetime('now')
+        UPDATE matches SET alert_sent = 1, touched_target = 1, updated_at = datetime('now')
         WHERE match_id = ?
       `);
       stmt.run(match.match_id);
+
+      db.prepare(`
+        UPDATE match_line_alerts
+        SET alert_sent = 1, status = 'alerted', alert_over_odds = ?, alert_under_odds = ?, alerted_at = datetime('now')
+        WHERE match_id = ? AND goal_line = ?
+      `).run(
+        parseFloat(goalLineResult.overOdds) || null,
+        parseFloat(goalLineResult.underOdds) || null,
+        match.match_id,
+        targetGoalLine
+      );
+    }
+  }
+
+  /**
+   * Record that a match touched a target goal line (first touch per line wins)
+   */
+  private recordLineTouch(
+    matchId: string,
+    goalLine: number,
+    rule: DetectionRule,
+    goalLineResult: {
+      overOdds: string;
+      underOdds: string;
+      score: string;
+    }
+  ): void {
+    const stmt = db.prepare(`
+      INSERT OR IGNORE INTO match_line_alerts (match_id, goal_line, rule_id, score_at_touch, over_odds, under_odds)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      matchId,
+      goalLine,
+      rule.id ?? null,
+      goalLineResult.score,
+      parseFloat(goalLineResult.overOdds) || null,
+      parseFloat(goalLineResult.underOdds) || null
+    );
+  }
+
+  /**
+   * Settle every touched line of a finished match against its final score
+   */
+  private settleLineAlerts(matchId: string, sportId: number, homeScore: number, awayScore: number): void {
+    const unsettled = db.prepare(
+      'SELECT * FROM match_line_alerts WHERE match_id = ? AND result IS NULL'
+    ).all(matchId) as MatchLineAlert[];
+
+    const stmt = db.prepare(`
+      UPDATE match_line_alerts
+      SET result = ?, over_outcome = ?, under_outcome = ?, settled_at = datetime('now')
+      WHERE id = ?
+    `);
+
+    for (const lineAlert of unsettled) {
+      const finalScore = { home: homeScore, away: awayScore };
+      // Outcome doesn't depend on the price, so any odds will do here
+      const over = settleTotalLine(sportId, lineAlert.goal_line, 'over', finalScore, 1);
+      const under = settleTotalLine(sportId, lineAlert.goal_line, 'under', finalScore, 1);
+      if (!over || !under) continue;
+
+      // The line's result follows the over settlement, so it agrees with the result alert
+      const result = WIN_SHARE[over.outcome] > 0 ? 'over' : WIN_SHARE[under.outcome] > 0 ? 'under' : 'push';
+      stmt.run(result, over.outcome, under.outcome, lineAlert.id);
     }
   }
 
@@ -257,10 +484,10 @@ class TrackerService {
   private markMatchAsTouchedTarget(matchId: string, handicap: number, score: string, targetGoalLine: number): void {
     const stmt = db.prepare(`
       UPDATE matches
-      SET detected_odds = ?, current_goal_line = ?, current_score = ?, touched_15 = 1, updated_at = datetime('now')
+      SET detected_odds = ?, current_goal_line = ?, current_score = ?, target_line = ?, touched_target = 1, updated_at = datetime('now')
       WHERE match_id = ?
     `);
-    stmt.run(handicap, handicap, score, matchId);
+    stmt.run(handicap, handicap, score, targetGoalLine, matchId);
     console.log(`🎯 Match ${matchId} marked as touched target ${targetGoalLine}!`);
   }
 
@@ -268,43 +495,38 @@ class TrackerService {
    * Save a match with goal line data
    */
   private async saveMatchWithGoalLine(
-    match: {
-      id: string;
-      ourEventId: string;
-      bet365Id: string;
-      leagueId: number;
-      leagueName: string;
-      homeTeam: string;
-      awayTeam: string;
-      score: string;
-    },
+    match: InplayMatch,
     handicap: number | null
   ): Promise<void> {
     const matchId = match.id;
     const now = new Date().toISOString();
 
     const stmt = db.prepare(`
-      INSERT INTO matches (match_id, bet365_id, league_id, home_team, away_team, detection_time, detected_odds, current_goal_line, current_score, status, touched_15)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'live', 0)
+      INSERT INTO matches (match_id, bet365_id, league_id, sport_id, home_team, away_team, detection_time, detected_odds, current_goal_line, current_score, status, target_line, touched_target)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'live', ?, 0)
     `);
 
     stmt.run(
       matchId,
       match.bet365Id, // Store actual bet365 fixture ID for result lookup
       match.leagueId,
+      match.sportId,
       match.homeTeam,
       match.awayTeam,
       now,
       handicap, // detected_odds
       handicap, // current_goal_line
-      match.score
+      match.score,
+      rulesService.getTargetGoalLine(match.leagueId) // target_line - the league's target at tracking time
     );
+    playersService.linkMatchPlayers(matchId, match.homeTeam, match.awayTeam);
+    teamsService.linkMatchTeams(matchId, match);
 
     console.log(`📝 Match tracked: ${match.homeTeam} vs ${match.awayTeam} (${match.leagueName}) | Goal Line: ${handicap || 'N/A'} | Score: ${match.score}`);
   }
 
   /**
-   * Update match goal line and score (for matches that never touched 1.5)
+   * Update match goal line and score (for matches that never touched their target)
    */
   private updateMatchGoalLine(matchId: string, handicap: number, score: string): void {
     const stmt = db.prepare(`
@@ -326,7 +548,20 @@ class TrackerService {
   }
 
   /**
-   * Update match score and current goal line (for matches that touched 1.5 - preserves detected_odds)
+   * Update the live match clock minute
+   */
+  private updateMatchMinute(matchId: string, minute: number | null): void {
+    if (minute === null) return;
+
+    const stmt = db.prepare(`
+      UPDATE matches SET current_minute = ?
+      WHERE match_id = ?
+    `);
+    stmt.run(minute, matchId);
+  }
+
+  /**
+   * Update match score and current goal line (for matches that touched their target - preserves detected_odds)
    */
   private updateMatchScoreAndGoalLine(matchId: string, score: string, goalLine: number): void {
     const stmt = db.prepare(`
@@ -343,31 +578,99 @@ class TrackerService {
     matchId: string,
     handicap: number,
     overOdds: string,
-    underOdds: string
+    underOdds: string,
+    minute: number | null,
+    second: number | null
   ): void {
     const stmt = db.prepare(`
-      INSERT OR IGNORE INTO odds_history (match_id, handicap, odds_value, add_time)
-      VALUES (?, ?, ?, datetime('now'))
+      INSERT OR IGNORE INTO odds_history (match_id, handicap, odds_value, add_time, match_minute, match_second)
+      VALUES (?, ?, ?, datetime('now'), ?, ?)
     `);
 
     // Store over odds as the main odds value
-    stmt.run(matchId, handicap, parseFloat(overOdds) || 0);
+    stmt.run(matchId, handicap, parseFloat(overOdds) || 0, minute, second);
+  }
+
+  /**
+   * Append an odds snapshot when the line, either price or the score changed since the last poll
+   * Unlike odds_history this keeps returns to an earlier line and under prices
+   */
+  private saveOddsSnapshot(matchId: string, goalLineResult: GoalLineResult, score: string): void {
+    const overOdds = parseFloat(goalLineResult.overOdds) || null;
+    const underOdds = parseFloat(goalLineResult.underOdds) || null;
+
+    const last = db.prepare(
+      'SELECT handicap, over_odds, under_odds, score FROM odds_snapshots WHERE match_id = ? ORDER BY id DESC LIMIT 1'
+    ).get(matchId) as OddsSnapshot | undefined;
+
+    if (
+      last &&
+      last.handicap === goalLineResult.handicap &&
+      (last.over_odds ?? null) === overOdds &&
+      (last.under_odds ?? null) === underOdds &&
+      last.score === score
+    ) {
+      return; // Nothing moved since the previous poll
+    }
+
+    const stmt = db.prepare(`
+      INSERT INTO odds_snapshots (match_id, handicap, over_odds, under_odds, score, match_minute, match_second, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      matchId,
+      goalLineResult.handicap,
+      overOdds,
+      underOdds,
+      score,
+      goalLineResult.minute ?? null,
+      goalLineResult.second ?? null,
+      goalLineResult.source ?? null
+    );
+  }
+
+  /**
+   * Save a live stats snapshot when the stats changed and the interval has passed (or a goal went in)
+   * Each snapshot points at the latest odds snapshot so pressure can be lined up with goal line moves
+   */
+  private async saveLiveStats(match: InplayMatch): Promise<void> {
+    const settings = config.liveStats;
+    if (!settings.enabled) return;
+
+    const last = db.prepare(`
+      SELECT *, recorded_at > datetime('now', ?) as is_recent
+      FROM live_stats_snapshots WHERE match_id = ? ORDER BY id DESC LIMIT 1
+    `).get(`-${settings.intervalSeconds} seconds`, match.id) as (LiveStatsSnapshot & { is_recent: number }) | undefined;
+
+    if (last?.is_recent && last.score === match.score) return;
+
+    let stats = match.stats;
+    if (!stats && settings.fetchEventView) {
+      const event = await betsapiService.getMatchResult(match.id);
+      stats = event.ok ? betsapiService.extractLiveStats(event.data?.stats) : null;
+    }
+    if (!stats) return;
+
+    const columns = Object.keys(stats) as Array<keyof LiveStats>;
+    if (last && last.score === match.score && columns.every((column) => last[column] === stats![column])) {
+      return; // Nothing changed since the previous snapshot
+    }
+
+    const oddsSnapshot = db.prepare(
+      'SELECT id FROM odds_snapshots WHERE match_id = ? ORDER BY id DESC LIMIT 1'
+    ).get(match.id) as { id: number } | undefined;
+
+    db.prepare(`
+      INSERT INTO live_stats_snapshots (match_id, odds_snapshot_id, score, match_minute, ${columns.join(', ')})
+      VALUES (?, ?, ?, ?, ${columns.map(() => '?').join(', ')})
+    `).run(match.id, oddsSnapshot?.id ?? null, match.score, match.minute, ...columns.map((column) => stats![column]));
   }
 
   /**
    * Check for finished matches (v2 with new match format)
    */
   private async checkFinishedMatchesV2(
-    currentLiveMatches: Array<{
-      id: string;
-      ourEventId: string;
-      bet365Id: string;
-      leagueId: number;
-      leagueName: string;
-      homeTeam: string;
-      awayTeam: string;
-      score: string;
-    }>
+    currentLiveMatches: InplayMatch[]
   ): Promise<void> {
     const dbLiveMatches = this.getLiveMatches();
     if (dbLiveMatches.length === 0) return;
@@ -376,8 +679,7 @@ class TrackerService {
 
     let finishedCount = 0;
     for (const match of dbLiveMatches) {
-      if (!liveMatchIds.has(match.match_id)) {
-        await this.markMatchAsFinished(match);
+      if (!liveMatchIds.has(match.match_id) && await this.markMatchAsFinished(match)) {
         finishedCount++;
       }
     }
@@ -389,8 +691,9 @@ class TrackerService {
 
   /**
    * Mark a match as finished when it's no longer in live feed
+   * Returns false when the result could not be fetched - the match stays live and is retried next poll
    */
-  private async markMatchAsFinished(match: Match): Promise<void> {
+  private async markMatchAsFinished(match: Match): Promise<boolean> {
     const now = new Date().toISOString();
 
     // Parse final score from current_score
@@ -405,22 +708,23 @@ class TrackerService {
     }
 
     // If no current_score, try to fetch result from BetsAPI
-    if (homeScore === null || awayScore === null) {
-      try {
-        // Try using bet365_id (which stores our_event_id) to get result
-        if (match.bet365_id) {
-          const result = await betsapiService.getMatchResult(match.bet365_id);
-          if (result?.ss) {
-            const [home, away] = result.ss.split('-').map((s) => parseInt(s.trim(), 10));
-            if (!isNaN(home) && !isNaN(away)) {
-              homeScore = home;
-              awayScore = away;
-              scoreSource = 'BetsAPI result';
-            }
-          }
+    // Try using bet365_id (which stores our_event_id) to get result
+    if ((homeScore === null || awayScore === null) && match.bet365_id) {
+      const result = await betsapiService.getMatchResult(match.bet365_id);
+      // While the API is down the match stays live - finishing it now would leave it without a score.
+      // A request the API rejected won't succeed later, so that match finishes and waits for the backfill
+      if (!result.ok && (result.error.retryable || result.error.kind === 'circuit_open')) {
+        console.error(`[Tracker] Failed to fetch result for match ${match.match_id} (${result.error.kind}), keeping it live`);
+        return false;
+      }
+
+      if (result.ok && result.data?.ss) {
+        const [home, away] = result.data.ss.split('-').map((s) => parseInt(s.trim(), 10));
+        if (!isNaN(home) && !isNaN(away)) {
+          homeScore = home;
+          awayScore = away;
+          scoreSource = 'BetsAPI result';
         }
-      } catch (error) {
-        console.error(`[Tracker] Failed to fetch result for match ${match.match_id}:`, error);
       }
     }
 
@@ -439,13 +743,17 @@ class TrackerService {
     const scoreString = (homeScore !== null && awayScore !== null) ? `${homeScore}-${awayScore}` : null;
     stmt.run(homeScore, awayScore, scoreString, now, match.match_id);
 
+    if (homeScore !== null && awayScore !== null) {
+      await this.settleFinishedMatch(match, homeScore, awayScore);
+    }
+
     console.log(`✅ Match finished: ${match.home_team} ${homeScore ?? '?'}-${awayScore ?? '?'} ${match.away_team} (${scoreSource})`);
 
     // Send result alert if not already sent
     if (!match.result_alert_sent) {
       const updatedMatch = this.getMatch(match.match_id);
       if (updatedMatch) {
-        const success = await telegramService.sendResultAlert(updatedMatch);
+        const success = await telegramService.sendResultAlert(updatedMatch, this.getLineAlerts(match.match_id));
 
         if (success) {
           const updateStmt = db.prepare(`
@@ -456,6 +764,22 @@ class TrackerService {
         }
       }
     }
+
+    return true;
+  }
+
+  /**
+   * Settle what waits on the final score of a match
+   * Runs when a match finishes with a score and when the backfill fills in a missing one
+   */
+  private async settleFinishedMatch(match: Match, homeScore: number, awayScore: number): Promise<void> {
+    this.settleLineAlerts(match.match_id, match.sport_id ?? config.getLeagueSport(match.league_id), homeScore, awayScore);
+    paperTradingService.settleBets(match.match_id, homeScore, awayScore);
+
+    const finishedMatch = this.getMatch(match.match_id);
+    if (finishedMatch) {
+      await streaksService.recordFinishedMatch(finishedMatch);
+    }
   }
 
   /**
@@ -497,7 +821,7 @@ class TrackerService {
     if (!match.result_alert_sent) {
       const updatedMatch = this.getMatch(match.match_id);
       if (updatedMatch) {
-        const success = await telegramService.sendResultAlert(updatedMatch);
+        const success = await telegramService.sendResultAlert(updatedMatch, this.getLineAlerts(match.match_id));
 
         if (success) {
           const updateStmt = db.prepare(`
@@ -537,6 +861,22 @@ class TrackerService {
     return stmt.get(matchId) as Match | undefined;
   }
 
+  /**
+   * Get the alert state of one goal line for a match
+   */
+  getLineAlert(matchId: string, goalLine: number): MatchLineAlert | undefined {
+    const stmt = db.prepare('SELECT * FROM match_line_alerts WHERE match_id = ? AND goal_line = ?');
+    return stmt.get(matchId, goalLine) as MatchLineAlert | undefined;
+  }
+
+  /**
+   * Get the alert state of every touched goal line for a match
+   */
+  getLineAlerts(matchId: string): MatchLineAlert[] {
+    const stmt = db.prepare('SELECT * FROM match_line_alerts WHERE match_id = ? ORDER BY touched_at ASC');
+    return stmt.all(matchId) as MatchLineAlert[];
+  }
+
   /**
    * Get all live matches from database
    */
@@ -622,6 +962,26 @@ class TrackerService {
     return stmt.all(matchId) as OddsHistory[];
   }
 
+  /**
+   * Get the full per-poll odds timeline for a match
+   */
+  getOddsTimeline(matchId: string): OddsSnapshot[] {
+    const stmt = db.prepare(
+      'SELECT * FROM odds_snapshots WHERE match_id = ? ORDER BY id ASC'
+    );
+    return stmt.all(matchId) as OddsSnapshot[];
+  }
+
+  /**
+   * Get the live stats snapshots for a match
+   */
+  getLiveStats(matchId: string): LiveStatsSnapshot[] {
+    const stmt = db.prepare(
+      'SELECT * FROM live_stats_snapshots WHERE match_id = ? ORDER BY id ASC'
+    );
+    return stmt.all(matchId) as LiveStatsSnapshot[];
+  }
+
   /**
    * Get statistics including target hit ratios per league
    */
@@ -630,8 +990,10 @@ class TrackerService {
     liveMatches: number;
     finishedMatches: number;
     touchedTargetTotal: number;
+    priceRejectedTotal: number;
     byLeague: Record<number, number>;
     touchedTargetByLeague: Record<number, { total: number; touched: number; ratio: number }>;
+    touchedByLine: Record<number, LineTouchStats[]>;
   } {
     const totalStmt = db.prepare('SELECT COUNT(*) as count FROM matches');
     const liveStmt = db.prepare("SELECT COUNT(*) as count FROM matches WHERE status = 'live'");
@@ -639,19 +1001,23 @@ class TrackerService {
       "SELECT COUNT(*) as count FROM matches WHERE status = 'finished'"
     );
     const touchedTargetStmt = db.prepare(
-      'SELECT COUNT(*) as count FROM matches WHERE touched_15 = 1'
+      'SELECT COUNT(*) as count FROM matches WHERE touched_target = 1'
+    );
+    const priceRejectedStmt = db.prepare(
+      "SELECT COUNT(DISTINCT match_id) as count FROM match_line_alerts WHERE status = 'price_rejected'"
     );
     const byLeagueStmt = db.prepare(
       'SELECT league_id, COUNT(*) as count FROM matches GROUP BY league_id'
     );
     const touchedByLeagueStmt = db.prepare(
-      'SELECT league_id, COUNT(*) as total, SUM(CASE WHEN touched_15 = 1 THEN 1 ELSE 0 END) as touched FROM matches GROUP BY league_id'
+      'SELECT league_id, COUNT(*) as total, SUM(CASE WHEN touched_target = 1 THEN 1 ELSE 0 END) as touched FROM matches GROUP BY league_id'
     );
 
     const total = (totalStmt.get() as any).count;
     const live = (liveStmt.get() as any).count;
     const finished = (finishedStmt.get() as any).count;
     const touchedTargetTotal = (touchedTargetStmt.get() as any).count;
+    const priceRejectedTotal = (priceRejectedStmt.get() as any).count;
     const byLeagueRows = byLeagueStmt.all() as Array<{ league_id: number; count: number }>;
     const touchedByLeagueRows = touchedByLeagueStmt.all() as Array<{ league_id: number; total: number; touched: number }>;
 
@@ -674,11 +1040,64 @@ class TrackerService {
       liveMatches: live,
       finishedMatches: finished,
       touchedTargetTotal,
+      priceRejectedTotal,
       byLeague,
       touchedTargetByLeague,
+      touchedByLine: this.getLineTouchStats(),
     };
   }
 
+  /**
+   * Get touch ratios per target goal line, grouped by league
+   * Covers every configured target line plus any line that was touched via a range rule
+   */
+  getLineTouchStats(leagueId?: number): Record<number, LineTouchStats[]> {
+    const totalsQuery = leagueId
+      ? 'SELECT league_id, COUNT(*) as total FROM matches WHERE league_id = ? GROUP BY league_id'
+      : 'SELECT league_id, COUNT(*) as total FROM matches GROUP BY league_id';
+    const totalRows = db.prepare(totalsQuery).all(...(leagueId ? [leagueId] : [])) as Array<{
+      league_id: number;
+      total: number;
+    }>;
+
+    const touchedQuery = `
+      SELECT m.league_id, a.goal_line, COUNT(DISTINCT a.match_id) as touched
+      FROM match_line_alerts a
+      JOIN matches m ON a.match_id = m.match_id
+      ${leagueId ? 'WHERE m.league_id = ?' : ''}
+      GROUP BY m.league_id, a.goal_line
+    `;
+    const touchedRows = db.prepare(touchedQuery).all(...(leagueId ? [leagueId] : [])) as Array<{
+      league_id: number;
+      goal_line: number;
+      touched: number;
+    }>;
+
+    const result: Record<number, LineTouchStats[]> = {};
+    for (const { league_id, total } of totalRows) {
+      const touchedByLine = new Map<number, number>();
+      for (const goalLine of rulesService.getTargetGoalLines(league_id)) {
+        touchedByLine.set(goalLine, 0);
+      }
+      for (const row of touchedRows) {
+        if (row.league_id === league_id) {
+          touchedByLine.set(row.goal_line, row.touched);
+        }
+      }
+
+      result[league_id] = Array.from(touchedByLine.entries())
+        .map(([goalLine, touched]) => ({
+          goalLine,
+          total,
+          touched,
+          ratio: total > 0 ? Math.round(touched / total * 1000) / 10 : 0, // Percentage with 1 decimal
+        }))
+        .sort((a, b) => a.goalLine - b.goalLine);
+    }
+
+    return result;
+  }
+
   /**
    * Check if tracker is running
    */
@@ -719,10 +1138,42 @@ class TrackerService {
       const deleteOddsStmt = db.prepare(`
         DELETE FROM odds_history WHERE match_id = ?
       `);
+      const deleteLineAlertsStmt = db.prepare(`
+        DELETE FROM match_line_alerts WHERE match_id = ?
+      `);
+      const deleteSnapshotsStmt = db.prepare(`
+        DELETE FROM odds_snapshots WHERE match_id = ?
+      `);
+      const deleteMovementsStmt = db.prepare(`
+        DELETE FROM line_movement_alerts WHERE match_id = ?
+      `);
+      const deleteLiveStatsStmt = db.prepare(`
+        DELETE FROM live_stats_snapshots WHERE match_id = ?
+      `);
+      const deleteValueAlertsStmt = db.prepare(`
+        DELETE FROM value_alerts WHERE match_id = ?
+      `);
+      const deleteBookmakerOddsStmt = db.prepare(`
+        DELETE FROM bookmaker_odds WHERE match_id = ?
+      `);
+      const deleteMarketOddsStmt = db.prepare(`
+        DELETE FROM market_odds WHERE match_id = ?
+      `);
+      const deleteMarketAlertsStmt = db.prepare(`
+        DELETE FROM market_alerts WHERE match_id = ?
+      `);
       let oddsDeleted = 0;
       for (const matchId of matchIds) {
         const result = deleteOddsStmt.run(matchId);
         oddsDeleted += result.changes;
+        deleteLineAlertsStmt.run(matchId);
+        deleteLiveStatsStmt.run(matchId);
+        deleteSnapshotsStmt.run(matchId);
+        deleteMovementsStmt.run(matchId);
+        deleteValueAlertsStmt.run(matchId);
+        deleteBookmakerOddsStmt.run(matchId);
+        deleteMarketOddsStmt.run(matchId);
+        deleteMarketAlertsStmt.run(matchId);
       }
 
       // Now delete the matches
@@ -745,7 +1196,8 @@ class TrackerService {
 
   /**
    * Get goal line statistics for a specific league
-   * Analyzes all odds history records to calculate hit rates and ROI by goal line
+   * Settles an over and an under bet on every line each match offered, at the price recorded
+   * when that line was first seen, plus the alerted lines at the price at detection time
    */
   getLeagueGoalLineStats(leagueId: number): {
     totalMatches: number;
@@ -755,8 +1207,19 @@ class TrackerService {
       overHits: number;
       hitRate: number;
       roi: number;
+      outcomes: Record<SettlementOutcome, number>;
+      over: BetSummary;
+      under: BetSummary;
+    }>;
+    alertedStats: Array<{
+      goalLine: number;
+      alerts: number;
+      over: BetSummary;
+      under: BetSummary;
     }>;
   } {
+    const sportId = config.getLeagueSport(leagueId);
+
     // Get total finished matches for this league (only those with valid final scores)
     const totalStmt = db.prepare(
       "SELECT COUNT(*) as count FROM matches WHERE league_id = ? AND status = 'finished' AND final_score_home IS NOT NULL AND final_score_away IS NOT NULL"
@@ -764,11 +1227,19 @@ class TrackerService {
     const totalMatches = (totalStmt.get(leagueId) as any).count;
 
     // Get unique goal lines per match using GROUP BY (count each goal line only once per match)
+    // with the prices from the first time the line was seen: the odds timeline has both sides,
+    // older rows only have the over price in odds_history
     // Only include finished matches with valid final scores
     const oddsStmt = db.prepare(`
       SELECT
         oh.match_id,
         oh.handicap,
+        MIN(oh.id) as first_id, -- bare columns below come from the first row
+        oh.odds_value as history_over_odds,
+        (SELECT s.over_odds FROM odds_snapshots s
+         WHERE s.match_id = oh.match_id AND s.handicap = oh.handicap ORDER BY s.id ASC LIMIT 1) as snapshot_over_odds,
+        (SELECT s.under_odds FROM odds_snapshots s
+         WHERE s.match_id = oh.match_id AND s.handicap = oh.handicap ORDER BY s.id ASC LIMIT 1) as snapshot_under_odds,
         m.final_score_home,
         m.final_score_away
       FROM odds_history oh
@@ -784,12 +1255,16 @@ class TrackerService {
     const oddsRows = oddsStmt.all(leagueId) as Array<{
       match_id: string;
       handicap: number;
+      history_over_odds: number | null;
+      snapshot_over_odds: number | null;
+      snapshot_under_odds: number | null;
       final_score_home: number | null;
       final_score_away: number | null;
     }>;
 
-    // Group by goal line and calculate stats
-    const goalLineMap = new Map<number, { total: number; hits: number }>();
+    // Group by goal line and settle both sides (Asian rules: pushes, half-wins, half-losses)
+    type SettledBet = Settlement & { odds: number };
+    const goalLineMap = new Map<number, { total: number; outcomeOnly: SettledBet[]; over: SettledBet[]; under: SettledBet[] }>();
 
     for (const row of oddsRows) {
       if (row.handicap === null || row.final_score_home === null || row.final_score_away === null) {
@@ -797,29 +1272,40 @@ class TrackerService {
       }
 
       const goalLine = row.handicap;
-      const totalGoals = row.final_score_home + row.final_score_away;
-      const overHit = totalGoals > goalLine;
+      const finalScore = { home: row.final_score_home, away: row.final_score_away };
+      const overOdds = row.snapshot_over_odds || row.history_over_odds || null;
+      const underOdds = row.snapshot_under_odds || null;
 
-      const existing = goalLineMap.get(goalLine) || { total: 0, hits: 0 };
+      const existing = goalLineMap.get(goalLine) || { total: 0, outcomeOnly: [], over: [], under: [] };
       existing.total++;
-      if (overHit) {
-        existing.hits++;
+
+      // Hit rate doesn't need a price, so every line counts towards it
+      const overResult = settleTotalLine(sportId, goalLine, 'over', finalScore, overOdds || 1);
+      if (overResult) {
+        existing.outcomeOnly.push({ ...overResult, odds: overOdds || 1 });
+        if (overOdds) existing.over.push({ ...overResult, odds: overOdds });
+      }
+      if (underOdds) {
+        const underResult = settleTotalLine(sportId, goalLine, 'under', finalScore, underOdds);
+        if (underResult) existing.under.push({ ...underResult, odds: underOdds });
       }
       goalLineMap.set(goalLine, existing);
     }
 
-    // Convert to array and calculate hit rate and ROI
+    // Convert to array and calculate hit rate and ROI from the recorded prices
     const goalLineStats = Array.from(goalLineMap.entries())
       .map(([goalLine, data]) => {
-        const hitRate = data.total > 0 ? (data.hits / data.total) * 100 : 0;
-        // ROI at 1.90 odds: (hitRate/100 * 1.90 - 1) * 100
-        const roi = hitRate * 1.9 - 100;
+        const hits = summarizeBets(data.outcomeOnly);
+        const over = summarizeBets(data.over);
         return {
           goalLine,
           timesAvailable: data.total,
-          overHits: data.hits,
-          hitRate: Math.round(hitRate * 10) / 10,
-          roi: Math.round(roi * 10) / 10,
+          overHits: hits.wins,
+          hitRate: hits.hitRate,
+          roi: over.roi,
+          outcomes: hits.outcomes,
+          over,
+          under: summarizeBets(data.under),
         };
       })
       .sort((a, b) => a.goalLine - b.goalLine);
@@ -827,12 +1313,171 @@ class TrackerService {
     return {
       totalMatches,
       goalLineStats,
+      alertedStats: this.getAlertedLineStats(leagueId),
     };
   }
 
+  /**
+   * Settle alerted lines at the price recorded at detection time
+   */
+  private getAlertedLineStats(leagueId: number): Array<{
+    goalLine: number;
+    alerts: number;
+    over: BetSummary;
+    under: BetSummary;
+  }> {
+    const sportId = config.getLeagueSport(leagueId);
+    const rows = db.prepare(`
+      SELECT
+        a.goal_line,
+        COALESCE(a.alert_over_odds, a.over_odds) as over_odds,
+        COALESCE(a.alert_under_odds, a.under_odds) as under_odds,
+        m.final_score_home,
+        m.final_score_away
+      FROM match_line_alerts a
+      JOIN matches m ON a.match_id = m.match_id
+      WHERE m.league_id = ?
+        AND a.alert_sent = 1
+        AND m.status = 'finished'
+        AND m.final_score_home IS NOT NULL
+        AND m.final_score_away IS NOT NULL
+    `).all(leagueId) as Array<{
+      goal_line: number;
+      over_odds: number | null;
+      under_odds: number | null;
+      final_score_home: number;
+      final_score_away: number;
+    }>;
+
+    const byLine = new Map<number, { alerts: number; over: Array<Settlement & { odds: number }>; under: Array<Settlement & { odds: number }> }>();
+    for (const row of rows) {
+      const finalScore = { home: row.final_score_home, away: row.final_score_away };
+      const existing = byLine.get(row.goal_line) || { alerts: 0, over: [], under: [] };
+      existing.alerts++;
+
+      if (row.over_odds) {
+        const result = settleTotalLine(sportId, row.goal_line, 'over', finalScore, row.over_odds);
+        if (result) existing.over.push({ ...result, odds: row.over_odds });
+      }
+      if (row.under_odds) {
+        const result = settleTotalLine(sportId, row.goal_line, 'under', finalScore, row.under_odds);
+        if (result) existing.under.push({ ...result, odds: row.under_odds });
+      }
+      byLine.set(row.goal_line, existing);
+    }
+
+    return Array.from(byLine.entries())
+      .map(([goalLine, data]) => ({
+        goalLine,
+        alerts: data.alerts,
+        over: summarizeBets(data.over),
+        under: summarizeBets(data.under),
+      }))
+      .sort((a, b) => a.goalLine - b.goalLine);
+  }
+
+  /**
+   * Break a league's finished matches down by hour of day or ISO weekday (1 = Monday) in a timezone
+   * ROI is an over bet at the target line on every match that touched it, at the recorded price;
+   * the over rate settles the same bet on every match, with pushes left out
+   */
+  getLeagueTimeBreakdown(
+    leagueId: number,
+    bucket: 'hour' | 'weekday',
+    timeZone: string = config.statsTimezone
+  ): Array<{
+    bucket: number;
+    label: string;
+    matches: number;
+    touched: number;
+    touchRate: number;
+    overs: number;
+    overRate: number;
+    bets: number;
+    roi: number;
+  }> {
+    const rows = db.prepare(`
+      SELECT
+        m.detection_time,
+        m.touched_target,
+        m.target_line,
+        m.final_score_home,
+        m.final_score_away,
+        COALESCE(a.alert_over_odds, a.over_odds) as over_odds
+      FROM matches m
+      LEFT JOIN match_line_alerts a ON a.match_id = m.match_id AND a.goal_line = m.target_line
+      WHERE m.league_id = ?
+        AND m.status = 'finished'
+        AND m.final_score_home IS NOT NULL
+        AND m.final_score_away IS NOT NULL
+    `).all(leagueId) as Array<{
+      detection_time: string;
+      touched_target: number | null;
+      target_line: number | null;
+      final_score_home: number;
+      final_score_away: number;
+      over_odds: number | null;
+    }>;
+
+    const sportId = config.getLeagueSport(leagueId);
+    const timeParts = zonedTimeParts(timeZone);
+    const defaultTarget = rulesService.getTargetGoalLine(leagueId);
+    const buckets = bucket === 'hour'
+      ? Array.from({ length: 24 }, (_, hour) => ({ bucket: hour, label: `${String(hour).padStart(2, '0')}:00` }))
+      : WEEKDAYS.map((label, index) => ({ bucket: index + 1, label }));
+    const data = new Map(buckets.map((b) => [b.bucket, {
+      matches: 0,
+      touched: 0,
+      overOutcomes: [] as SettlementOutcome[],
+      bets: [] as Array<Settlement & { odds: number }>,
+    }]));
+
+    for (const row of rows) {
+      const parts = timeParts(parseDbTime(row.detection_time));
+      const entry = data.get(bucket === 'hour' ? parts.hour : parts.weekday);
+      if (!entry) continue;
+
+      const targetLine = row.target_line ?? defaultTarget;
+      const finalScore = { home: row.final_score_home, away: row.final_score_away };
+      entry.matches++;
+      // Settled like the ROI bets below, so pushes and quarter lines count the same in both
+      const over = settleTotalLine(sportId, targetLine, 'over', finalScore, 1);
+      if (over) entry.overOutcomes.push(over.outcome);
+
+      if (row.touched_target) {
+        entry.touched++;
+        if (row.over_odds) {
+          const settlement = settleTotalLine(sportId, targetLine, 'over', finalScore, row.over_odds);
+          if (settlement) entry.bets.push({ ...settlement, odds: row.over_odds });
+        }
+      }
+    }
+
+    const percent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+    return buckets.map(({ bucket: key, label }) => {
+      const entry = data.get(key)!;
+      const summary = summarizeBets(entry.bets);
+      const overRate = hitRateOf(entry.overOutcomes);
+      return {
+        bucket: key,
+        label,
+        matches: entry.matches,
+        touched: entry.touched,
+        touchRate: percent(entry.touched, entry.matches),
+        overs: entry.overOutcomes.reduce((sum, outcome) => sum + WIN_SHARE[outcome], 0),
+        overRate: overRate !== null ? Math.round(overRate * 1000) / 10 : 0,
+        bets: summary.bets,
+        roi: summary.roi,
+      };
+    });
+  }
+
   /**
    * Backfill missing scores for finished matches
    * This finds all finished matches with missing scores and tries to fetch results from BetsAPI
+   * A match that gets its score is settled like any other finished match
+   * Requests are sent at backfill priority, so live polling is never queued behind them
    */
   async backfillMissingScores(): Promise<{
     processed: number;
@@ -858,8 +1503,13 @@ class TrackerService {
       try {
         // Try to fetch result from BetsAPI using bet365_id (which stores our_event_id)
         if (match.bet365_id) {
-          const result = await betsapiService.getMatchResult(match.bet365_id);
+          const response = await betsapiService.getMatchResult(match.bet365_id, 'backfill');
+          if (!response.ok && response.error.kind === 'circuit_open') {
+            console.warn('[Backfill] BetsAPI circuit open, stopping the backfill');
+            break;
+          }
 
+          const result = response.ok ? response.data : null;
           if (result?.ss) {
             const [home, away] = result.ss.split('-').map((s) => parseInt(s.trim(), 10));
 
@@ -874,6 +1524,7 @@ class TrackerService {
                 WHERE match_id = ?
               `);
               updateStmt.run(home, away, result.ss, match.match_id);
+              await this.settleFinishedMatch(match, home, away);
 
               updated++;
               details.push({
@@ -903,15 +1554,12 @@ class TrackerService {
           result: 'ERROR',
         });
       }
-
-      // Add a small delay to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 100));
     }
 
     console.log(`[Backfill] Completed: ${updated} updated, ${failed} failed`);
 
     return {
-      processed: matchesWithMissingScores.length,
+      processed: updated + failed,
       updated,
       failed,
       details,
@@ -921,13 +1569,14 @@ class TrackerService {
   /**
    * Backfill missing goal line data for historical matches
    * This finds matches with null detected_odds and tries to fetch historical odds from BetsAPI
+   * Requests are sent at backfill priority, so live polling is never queued behind them
    */
   async backfillMissingGoalLines(): Promise<{
     processed: number;
     updated: number;
-    touched15Found: number;
+    touchedTargetFound: number;
     failed: number;
-    details: Array<{ matchId: string; teams: string; result: string; goalLine?: number; touched15?: boolean }>;
+    details: Array<{ matchId: string; teams: string; result: string; goalLine?: number; targetLine?: number; touchedTarget?: boolean }>;
   }> {
     // Find matches with missing goal line data
     const stmt = db.prepare(`
@@ -941,17 +1590,28 @@ class TrackerService {
     console.log(`[Backfill GoalLine] Found ${matchesWithMissingGoalLine.length} matches with missing goal line`);
 
     let updated = 0;
-    let touched15Found = 0;
+    let touchedTargetFound = 0;
     let failed = 0;
-    const details: Array<{ matchId: string; teams: string; result: string; goalLine?: number; touched15?: boolean }> = [];
+    const details: Array<{ matchId: string; teams: string; result: string; goalLine?: number; targetLine?: number; touchedTarget?: boolean }> = [];
 
     for (const match of matchesWithMissingGoalLine) {
       try {
         // Try to get historical odds using the match_id (which should be a valid BetsAPI event ID)
-        const oddsSummary = await betsapiService.getHistoricalOddsSummary(match.match_id);
+        const response = await betsapiService.getHistoricalOddsSummary(match.match_id, 'backfill');
+        if (!response.ok && response.error.kind === 'circuit_open') {
+          console.warn('[Backfill GoalLine] BetsAPI circuit open, stopping the backfill');
+          break;
+        }
 
+        const oddsSummary = response.ok ? response.data : null;
         if (oddsSummary) {
-          const goalLineData = betsapiService.extractHistoricalAsianGoalLine(oddsSummary);
+          // Evaluate against the line the match was tracked with, else the league's own target
+          const targetLine = match.target_line ?? rulesService.getTargetGoalLine(match.league_id);
+          const goalLineData = betsapiService.extractHistoricalAsianGoalLine(
+            oddsSummary,
+            targetLine,
+            config.getTotalMarket(match.league_id)
+          );
 
           if (goalLineData) {
             // Update the match with goal line data
@@ -959,30 +1619,33 @@ class TrackerService {
               UPDATE matches
               SET detected_odds = ?,
                   current_goal_line = ?,
-                  touched_15 = ?,
+                  target_line = ?,
+                  touched_target = ?,
                   updated_at = datetime('now')
               WHERE match_id = ?
             `);
             updateStmt.run(
               goalLineData.handicap,
               goalLineData.handicap,
-              goalLineData.touched15 ? 1 : 0,
+              targetLine,
+              goalLineData.touchedTarget ? 1 : 0,
               match.match_id
             );
 
             updated++;
-            if (goalLineData.touched15) {
-              touched15Found++;
+            if (goalLineData.touchedTarget) {
+              touchedTargetFound++;
             }
             details.push({
               matchId: match.match_id,
               teams: `${match.home_team} vs ${match.away_team}`,
               result: 'UPDATED',
               goalLine: goalLineData.handicap,
-              touched15: goalLineData.touched15,
+              targetLine,
+              touchedTarget: goalLineData.touchedTarget,
             });
 
-            console.log(`[Backfill GoalLine] Updated ${match.home_team} vs ${match.away_team}: Goal Line ${goalLineData.handicap}${goalLineData.touched15 ? ' (touched 1.5!)' : ''}`);
+            console.log(`[Backfill GoalLine] Updated ${match.home_team} vs ${match.away_team}: Goal Line ${goalLineData.handicap}${goalLineData.touchedTarget ? ` (touched ${targetLine}!)` : ''}`);
             continue;
           }
         }
@@ -1002,17 +1665,14 @@ class TrackerService {
           result: 'ERROR',
         });
       }
-
-      // Add a small delay to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 200));
     }
 
-    console.log(`[Backfill GoalLine] Completed: ${updated} updated (${touched15Found} touched 1.5), ${failed} failed`);
+    console.log(`[Backfill GoalLine] Completed: ${updated} updated (${touchedTargetFound} touched target), ${failed} failed`);
 
     return {
-      processed: matchesWithMissingGoalLine.length,
+      processed: updated + failed,
       updated,
-      touched15Found,
+      touchedTargetFound,
       failed,
       details,
     };
@@ -0,0 +1,81 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const settings = { failureThreshold: 3, cooldownMs: 60000 };
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    breaker = new CircuitBreaker('Test', settings);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) breaker.recordFailure();
+  };
+
+  it('starts closed and lets requests through', () => {
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.getStatus()).toEqual({ state: 'closed', failures: 0, openedAt: null, retryAt: null });
+  });
+
+  it('opens after the failure threshold of consecutive failures', () => {
+    fail(2);
+    expect(breaker.getStatus().state).toBe('closed');
+
+    fail(1);
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', failures: 3 });
+    expect(Date.parse(breaker.getStatus().retryAt!) - Date.parse(breaker.getStatus().openedAt!)).toBe(60000);
+  });
+
+  it('resets the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', failures: 2 });
+  });
+
+  it('lets a single trial request through once the cooldown has passed', () => {
+    fail(3);
+    jest.advanceTimersByTime(59999);
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getStatus().state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('closes when the trial request succeeds', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+    breaker.canRequest();
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toEqual({ state: 'closed', failures: 0, openedAt: null, retryAt: null });
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('reopens for another cooldown when the trial request fails', () => {
+    fail(3);
+    jest.advanceTimersByTime(60000);
+    breaker.canRequest();
+
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(60000);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { CircuitBreakerSettings } from '../config';
+import { CircuitBreakerStatus } from '../models/types';
+
+/**
+ * Circuit breaker for an external API
+ * Opens after failureThreshold consecutive failures and rejects requests for cooldownMs, then lets
+ * a single trial request through (half open) - its success closes the circuit, its failure reopens it
+ */
+export class CircuitBreaker {
+  private state: CircuitBreakerStatus['state'] = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private name: string, private settings: CircuitBreakerSettings) {}
+
+  /**
+   * Whether a request may be sent now - in the half-open state only the first caller gets through
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.settings.cooldownMs) return false;
+      this.state = 'half_open';
+      this.trialInFlight = false;
+      console.log(`🔌 [${this.name}] Circuit half open, sending a trial request`);
+    }
+
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Whether the circuit is open and still cooling down
+   */
+  isOpen(): boolean {
+    return this.state === 'open' && Date.now() - this.openedAt < this.settings.cooldownMs;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`✅ [${this.name}] Circuit closed, API is responding again`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || (this.state === 'closed' && this.failures >= this.settings.failureThreshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.error(`🚨 [${this.name}] Circuit open after ${this.failures} failures, pausing requests for ${Math.round(this.settings.cooldownMs / 1000)}s`);
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const open = this.state !== 'closed';
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: open ? new Date(this.openedAt).toISOString() : null,
+      retryAt: open ? new Date(this.openedAt + this.settings.cooldownMs).toISOString() : null,
+    };
+  }
+}
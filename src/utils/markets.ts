@@ -0,0 +1,117 @@
+import { MarketExtractor, MarketReading } from '../models/types';
+import { parseGoalLine } from './settlement';
+
+// Asian Goal Line - the market target alerts, paper bets and settlement are built on
+export const GOAL_LINE_MARKET = '1_3';
+
+/**
+ * Collect the selections present in a market entry, keyed by selection name
+ */
+function readPrices(odds: any, fields: Record<string, string>): Record<string, string> {
+  const prices: Record<string, string> = {};
+  for (const [selection, field] of Object.entries(fields)) {
+    if (odds?.[field]) prices[selection] = String(odds[field]);
+  }
+  return prices;
+}
+
+/**
+ * Over/under markets on a line: goal lines, Asian corners and total points
+ * Structure: { handicap, over_od, under_od, ss }
+ */
+function totalsExtractor(market: string, name: string): MarketExtractor {
+  return {
+    market,
+    name,
+    selections: ['over', 'under'],
+    extract(odds: any): MarketReading | null {
+      const handicap = parseGoalLine(odds?.handicap);
+      if (handicap === null) return null;
+
+      return {
+        market,
+        handicap,
+        prices: readPrices(odds, { over: 'over_od', under: 'under_od' }),
+        score: odds.ss || 'N/A',
+      };
+    },
+  };
+}
+
+/**
+ * Asian handicap markets - the handicap is the home side's
+ * Structure: { handicap, home_od, away_od, ss }
+ */
+function handicapExtractor(market: string, name: string): MarketExtractor {
+  return {
+    market,
+    name,
+    selections: ['home', 'away'],
+    extract(odds: any): MarketReading | null {
+      const handicap = parseGoalLine(odds?.handicap);
+      if (handicap === null) return null;
+
+      return {
+        market,
+        handicap,
+        prices: readPrices(odds, { home: 'home_od', away: 'away_od' }),
+        score: odds.ss || 'N/A',
+      };
+    },
+  };
+}
+
+/**
+ * Match result markets without a line - moneylines have no draw
+ * Structure: { home_od, draw_od, away_od, ss }
+ */
+function resultExtractor(market: string, name: string, withDraw = true): MarketExtractor {
+  const fields: Record<string, string> = withDraw
+    ? { home: 'home_od', draw: 'draw_od', away: 'away_od' }
+    : { home: 'home_od', away: 'away_od' };
+
+  return {
+    market,
+    name,
+    selections: Object.keys(fields),
+    extract(odds: any): MarketReading | null {
+      const prices = readPrices(odds, fields);
+      if (Object.keys(prices).length === 0) return null;
+
+      return {
+        market,
+        handicap: null,
+        prices,
+        score: odds.ss || 'N/A',
+      };
+    },
+  };
+}
+
+// Extractors for the BetsAPI odds summary markets, keyed by market
+export const MARKET_EXTRACTORS: Record<string, MarketExtractor> = {
+  '1_1': resultExtractor('1_1', '1X2'),
+  '1_2': handicapExtractor('1_2', 'Asian Handicap'),
+  '1_3': totalsExtractor('1_3', 'Asian Goal Line'),
+  '1_4': totalsExtractor('1_4', 'Asian Corners'),
+  '1_5': handicapExtractor('1_5', '1st Half Asian Handicap'),
+  '1_6': totalsExtractor('1_6', '1st Half Goal Line'),
+  '1_7': totalsExtractor('1_7', '1st Half Asian Corners'),
+  '1_8': resultExtractor('1_8', '1st Half 1X2'),
+  '18_1': resultExtractor('18_1', 'Moneyline', false),
+  '18_2': handicapExtractor('18_2', 'Spread'),
+  '18_3': totalsExtractor('18_3', 'Total Points'),
+};
+
+/**
+ * Extract one market of a bookmaker from the odds summary
+ * Structure: results.<Bookmaker>.odds.end[market] - 'end' has the most recent data
+ */
+export function extractMarket(oddsSummary: any, market: string, bookmaker = 'Bet365'): MarketReading | null {
+  const extractor = MARKET_EXTRACTORS[market];
+  const book = oddsSummary?.[bookmaker];
+  if (!extractor || !book?.odds) return null;
+
+  const latestOdds = book.odds.end?.[market] || book.odds.kickoff?.[market] || book.odds.start?.[market];
+  return latestOdds ? extractor.extract(latestOdds) : null;
+}
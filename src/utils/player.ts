@@ -0,0 +1,14 @@
+/**
+ * Split an esoccer team name like "Arsenal (Boulevard)" into the club and the player handle
+ * Names without a trailing "(handle)" are returned as a club with no player
+ */
+export function parseEsoccerTeam(teamName?: string | null): { club: string; player: string | null } {
+  const name = (teamName || '').trim();
+  const match = name.match(/^(.*?)\s*\(([^()]+)\)$/);
+
+  if (!match || !match[2].trim()) {
+    return { club: name, player: null };
+  }
+
+  return { club: match[1].trim(), player: match[2].trim() };
+}
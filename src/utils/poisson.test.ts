@@ -0,0 +1,37 @@
+import { fairGoalLinePrice, poissonPmf } from './poisson';
+
+describe('poissonPmf', () => {
+  it('returns Poisson probabilities', () => {
+    expect(poissonPmf(0, 1)).toBeCloseTo(Math.exp(-1));
+    expect(poissonPmf(2, 1.5)).toBeCloseTo((Math.exp(-1.5) * 1.5 ** 2) / 2);
+  });
+
+  it('puts all the mass on 0 for a zero mean', () => {
+    expect(poissonPmf(0, 0)).toBe(1);
+    expect(poissonPmf(1, 0)).toBe(0);
+  });
+});
+
+describe('fairGoalLinePrice', () => {
+  it('prices both sides of a half line from the remaining goals', () => {
+    const over = fairGoalLinePrice(2.5, 'over', 2, 1);
+    const under = fairGoalLinePrice(2.5, 'under', 2, 1);
+
+    expect(over.probability).toBeCloseTo(1 - Math.exp(-1));
+    expect(over.probability + under.probability).toBeCloseTo(1);
+    expect(under.fairOdds).toBe(Math.round(Math.exp(1) * 100) / 100);
+  });
+
+  it('leaves pushes out of the probability', () => {
+    // With no goals to come a 2.0 line on 2 goals always pushes
+    expect(fairGoalLinePrice(2, 'over', 2, 0)).toMatchObject({ probability: 0, outcomes: { push: 1 } });
+  });
+
+  it('keeps fair odds finite for a side the model gives no chance', () => {
+    const over = fairGoalLinePrice(2.5, 'over', 1, 0);
+
+    expect(over.probability).toBe(0);
+    expect(over.fairOdds).toBe(1000);
+    expect(fairGoalLinePrice(2.5, 'under', 1, 0).fairOdds).toBe(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { BetSide, settleGoalLine, SettlementOutcome } from './settlement';
+
+/**
+ * Poisson probability of exactly k events with mean lambda
+ */
+export function poissonPmf(k: number, lambda: number): number {
+  if (lambda <= 0) return k === 0 ? 1 : 0;
+
+  let logP = -lambda + k * Math.log(lambda);
+  for (let i = 2; i <= k; i++) logP -= Math.log(i);
+  return Math.exp(logP);
+}
+
+// Floor for the win probability fair odds are priced from, so a side the model gives no chance stays finite
+const MIN_PROBABILITY = 0.001;
+
+export interface FairPrice {
+  probability: number; // Win share of the stake that isn't pushed back
+  fairOdds: number;    // Odds with zero expected profit, at most 1000
+  outcomes: Record<SettlementOutcome, number>;
+}
+
+/**
+ * Fair price of one side of an Asian goal line, with the remaining goals Poisson distributed
+ * Quarter lines are settled half-and-half, so half outcomes count half and pushes drop out
+ */
+export function fairGoalLinePrice(line: number, side: BetSide, currentGoals: number, expectedRemaining: number): FairPrice {
+  const outcomes: Record<SettlementOutcome, number> = { win: 0, half_win: 0, push: 0, half_loss: 0, loss: 0 };
+
+  let cumulative = 0;
+  for (let k = 0; k <= 50 && cumulative < 1 - 1e-9; k++) {
+    const p = poissonPmf(k, expectedRemaining);
+    cumulative += p;
+    const settlement = settleGoalLine(line, side, { home: currentGoals + k, away: 0 }, 1);
+    if (settlement) outcomes[settlement.outcome] += p;
+  }
+
+  const won = outcomes.win + outcomes.half_win / 2;
+  const lost = outcomes.loss + outcomes.half_loss / 2;
+  const probability = won + lost > 0 ? won / (won + lost) : 0;
+
+  return {
+    probability,
+    fairOdds: Math.round((1 / Math.max(probability, MIN_PROBABILITY)) * 100) / 100,
+    outcomes,
+  };
+}
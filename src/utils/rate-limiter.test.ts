@@ -0,0 +1,103 @@
+import { RateLimiter } from './rate-limiter';
+import { RequestPriority } from '../models/types';
+
+describe('RateLimiter', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    warn.mockRestore();
+  });
+
+  // Queue requests and record the order they are let through
+  const queue = (limiter: RateLimiter, priorities: RequestPriority[]) => {
+    const sent: string[] = [];
+    priorities.forEach((priority, index) => {
+      limiter.acquire(priority).then(() => sent.push(`${priority}${index}`));
+    });
+    return sent;
+  };
+
+  it('rejects negative and non-numeric settings', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: -1, hourlyQuota: 10, liveReserve: 0 })).toThrow('requestsPerSecond');
+    expect(() => new RateLimiter({ requestsPerSecond: 1, hourlyQuota: NaN, liveReserve: 0 })).toThrow('hourlyQuota');
+    expect(() => new RateLimiter({ requestsPerSecond: 1, hourlyQuota: 10, liveReserve: 1 })).toThrow('liveReserve');
+  });
+
+  it('treats 0 as no limit', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, hourlyQuota: 0, liveReserve: 0.2 });
+    const sent = queue(limiter, Array(20).fill('backfill'));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toHaveLength(20);
+    expect(limiter.getUsage().remainingThisHour).toBeNull();
+  });
+
+  it('bursts up to one second of requests, then spaces them out', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, hourlyQuota: 100, liveReserve: 0 });
+    const sent = queue(limiter, ['live', 'live', 'live']);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual(['live0', 'live1']);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(sent).toHaveLength(2);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(['live0', 'live1', 'live2']);
+  });
+
+  it('serves queued live requests before backfill requests', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, hourlyQuota: 100, liveReserve: 0 });
+    const sent = queue(limiter, ['backfill', 'backfill', 'backfill', 'live']);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(sent).toEqual(['backfill0', 'live3', 'backfill1']);
+  });
+
+  it('keeps the reserved share of the hourly quota for live requests', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, hourlyQuota: 4, liveReserve: 0.5 });
+    const sent = queue(limiter, ['backfill', 'backfill', 'backfill', 'live', 'live', 'live']);
+
+    // Backfill stops at half the quota, live requests go past it up to the full quota
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual(['backfill0', 'backfill1', 'live3', 'live4']);
+    expect(limiter.getUsage().usedLastHour).toEqual({ total: 4, live: 2, backfill: 2 });
+    expect(limiter.getUsage().queued).toEqual({ live: 1, backfill: 1 });
+
+    // An hour later the quota frees up again
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(sent).toEqual(['backfill0', 'backfill1', 'live3', 'live4', 'live5', 'backfill2']);
+  });
+
+  it('pauses after a 429 for the Retry-After time', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, hourlyQuota: 0, liveReserve: 0 });
+    limiter.updateFromHeaders({ 'retry-after': '3' }, 429);
+    const sent = queue(limiter, ['live']);
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(sent).toEqual([]);
+    expect(limiter.getUsage().pausedUntil).not.toBeNull();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(['live0']);
+  });
+
+  it('reads the server quota from rate limit headers and waits for its reset', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, hourlyQuota: 0, liveReserve: 0 });
+    limiter.updateFromHeaders({ 'x-ratelimit-limit': '3600', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '10' });
+    expect(limiter.getUsage().server).toMatchObject({ limit: 3600, remaining: 0 });
+
+    const sent = queue(limiter, ['live']);
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(sent).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(['live0']);
+  });
+});
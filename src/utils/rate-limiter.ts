@@ -0,0 +1,174 @@
+import { RateLimitSettings } from '../config';
+import { ApiQuotaUsage, RequestPriority } from '../models/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Token bucket limiter for outgoing API requests
+ * Requests wait for a token (requestsPerSecond, bursting up to one second's worth) and for room in
+ * the rolling hourly quota. Live requests are always served before queued backfill requests, and
+ * backfill stops short of the share of the quota reserved for live polling.
+ * A requestsPerSecond or hourlyQuota of 0 turns that limit off.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Array<{ priority: RequestPriority; resolve: () => void }> = [];
+  private sent: Array<{ at: number; priority: RequestPriority }> = [];
+  private pausedUntil = 0;
+  private server: ApiQuotaUsage['server'] = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private settings: RateLimitSettings) {
+    for (const key of ['requestsPerSecond', 'hourlyQuota'] as const) {
+      if (!isFinite(settings[key]) || settings[key] < 0) {
+        throw new Error(`Rate limit ${key} must be 0 (no limit) or a positive number, got ${settings[key]}`);
+      }
+    }
+    if (!(settings.liveReserve >= 0 && settings.liveReserve < 1)) {
+      throw new Error(`Rate limit liveReserve must be at least 0 and below 1, got ${settings.liveReserve}`);
+    }
+
+    this.tokens = this.capacity();
+  }
+
+  /**
+   * Wait until a request of this priority may be sent
+   */
+  acquire(priority: RequestPriority): Promise<void> {
+    return new Promise((resolve) => {
+      // Live requests go behind other live requests but ahead of every backfill request
+      const index = priority === 'live'
+        ? this.queue.findIndex((waiting) => waiting.priority === 'backfill')
+        : -1;
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, { priority, resolve });
+
+      // A new live request may be able to go before the wake-up scheduled for a backfill request
+      if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Read rate limit headers (X-RateLimit-Limit / -Remaining / -Reset, Retry-After) from a response
+   */
+  updateFromHeaders(headers: Record<string, any> | undefined, status?: number): void {
+    if (!headers) return;
+
+    const limit = parseInt(headers['x-ratelimit-limit'], 10);
+    const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+    const reset = parseInt(headers['x-ratelimit-reset'], 10);
+    if (!isNaN(remaining)) {
+      this.server = {
+        limit: isNaN(limit) ? null : limit,
+        remaining,
+        // Reset is sent either as a Unix timestamp or as seconds from now
+        resetAt: isNaN(reset) ? null : new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000).toISOString(),
+      };
+    }
+
+    if (status === 429) {
+      const retryAfter = parseInt(headers['retry-after'], 10);
+      const resetAt = this.server?.resetAt ? new Date(this.server.resetAt).getTime() : 0;
+      this.pause(!isNaN(retryAfter) ? retryAfter * 1000 : Math.max(resetAt - Date.now(), 60 * 1000));
+    }
+  }
+
+  /**
+   * Hold every request for a while, e.g. after the API throttled us
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    console.warn(`⏳ [RateLimit] Throttled, pausing requests for ${Math.ceil(ms / 1000)}s`);
+  }
+
+  getUsage(): ApiQuotaUsage {
+    this.prune();
+    const live = this.sent.filter((request) => request.priority === 'live').length;
+
+    return {
+      requestsPerSecond: this.settings.requestsPerSecond,
+      hourlyQuota: this.settings.hourlyQuota,
+      liveReserve: this.settings.liveReserve,
+      usedLastHour: { total: this.sent.length, live, backfill: this.sent.length - live },
+      remainingThisHour: this.settings.hourlyQuota > 0 ? Math.max(this.settings.hourlyQuota - this.sent.length, 0) : null,
+      queued: {
+        live: this.queue.filter((waiting) => waiting.priority === 'live').length,
+        backfill: this.queue.filter((waiting) => waiting.priority === 'backfill').length,
+      },
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      server: this.server,
+    };
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const wait = this.waitTime(this.queue[0].priority);
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, wait);
+        return;
+      }
+
+      const next = this.queue.shift()!;
+      if (this.settings.requestsPerSecond > 0) this.tokens -= 1;
+      this.sent.push({ at: Date.now(), priority: next.priority });
+      if (this.server && this.server.remaining > 0) this.server.remaining--;
+      next.resolve();
+    }
+  }
+
+  /**
+   * Milliseconds until a request of this priority may be sent, 0 when it can go now
+   */
+  private waitTime(priority: RequestPriority): number {
+    const now = Date.now();
+    this.refill(now);
+    this.prune(now);
+
+    if (this.pausedUntil > now) return this.pausedUntil - now;
+
+    // Backfill leaves the reserved share of the hourly quota to live polling
+    const quota = priority === 'live'
+      ? this.settings.hourlyQuota
+      : Math.max(Math.floor(this.settings.hourlyQuota * (1 - this.settings.liveReserve)), 1);
+    if (this.settings.hourlyQuota > 0 && this.sent.length >= quota) {
+      const freedAt = this.sent[this.sent.length - quota].at + HOUR_MS;
+      return Math.max(freedAt - now, 1);
+    }
+
+    // Stop when the API says the quota is spent, until its reset time
+    if (this.server && this.server.remaining <= 0 && this.server.resetAt) {
+      const resetAt = new Date(this.server.resetAt).getTime();
+      if (resetAt > now) return resetAt - now;
+      this.server = null;
+    }
+
+    if (this.settings.requestsPerSecond > 0 && this.tokens < 1) {
+      return Math.ceil(((1 - this.tokens) / this.settings.requestsPerSecond) * 1000);
+    }
+
+    return 0;
+  }
+
+  private capacity(): number {
+    return Math.max(this.settings.requestsPerSecond, 1);
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity(), this.tokens + elapsed * this.settings.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private prune(now = Date.now()): void {
+    while (this.sent.length > 0 && now - this.sent[0].at >= HOUR_MS) {
+      this.sent.shift();
+    }
+  }
+}
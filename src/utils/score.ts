@@ -0,0 +1,16 @@
+/**
+ * Parse a score string like "2-1" into home and away goals
+ */
+export function parseScore(score?: string | null): { home: number; away: number } | null {
+  const [home, away] = (score || '').split('-').map((s) => parseInt(s.trim(), 10));
+  if (isNaN(home) || isNaN(away)) return null;
+  return { home, away };
+}
+
+/**
+ * Total goals from a score string, or null if it can't be parsed
+ */
+export function totalGoalsFromScore(score?: string | null): number | null {
+  const parsed = parseScore(score);
+  return parsed ? parsed.home + parsed.away : null;
+}
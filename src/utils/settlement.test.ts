@@ -0,0 +1,111 @@
+import {
+  hitRateOf,
+  parseGoalLine,
+  settleGoalLine,
+  settlePointsLine,
+  settleTotalLine,
+  summarizeBets,
+} from './settlement';
+
+describe('parseGoalLine', () => {
+  it('reads whole, half and signed lines', () => {
+    expect(parseGoalLine('2.5')).toBe(2.5);
+    expect(parseGoalLine('+3.0')).toBe(3);
+    expect(parseGoalLine(1.75)).toBe(1.75);
+  });
+
+  it('returns the midpoint of a split line', () => {
+    expect(parseGoalLine('2.0,2.5')).toBe(2.25);
+    expect(parseGoalLine('2.5, 3.0')).toBe(2.75);
+  });
+
+  it('returns null for missing or unreadable lines', () => {
+    expect(parseGoalLine(null)).toBeNull();
+    expect(parseGoalLine(undefined)).toBeNull();
+    expect(parseGoalLine('N/A')).toBeNull();
+    expect(parseGoalLine(NaN)).toBeNull();
+  });
+});
+
+describe('settleGoalLine', () => {
+  it('settles half lines as a full win or loss', () => {
+    expect(settleGoalLine(2.5, 'over', '2-1', 1.9)).toEqual({ outcome: 'win', payoutMultiplier: 1.9 });
+    expect(settleGoalLine(2.5, 'over', '1-1', 1.9)).toEqual({ outcome: 'loss', payoutMultiplier: 0 });
+  });
+
+  it('pushes a whole line when the total lands on it', () => {
+    expect(settleGoalLine(2, 'over', '1-1', 1.9)).toEqual({ outcome: 'push', payoutMultiplier: 1 });
+    expect(settleGoalLine(2, 'under', { home: 2, away: 0 }, 1.9)).toEqual({ outcome: 'push', payoutMultiplier: 1 });
+  });
+
+  it('splits a x.25 line into a push half and a decided half', () => {
+    // 2.25 = half on 2.0 (push) and half on 2.5
+    expect(settleGoalLine(2.25, 'over', '1-1', 2)).toEqual({ outcome: 'half_loss', payoutMultiplier: 0.5 });
+    expect(settleGoalLine(2.25, 'under', '1-1', 2)).toEqual({ outcome: 'half_win', payoutMultiplier: 1.5 });
+    expect(settleGoalLine(2.25, 'over', '2-1', 2)).toEqual({ outcome: 'win', payoutMultiplier: 2 });
+  });
+
+  it('splits a x.75 line into a decided half and a push half', () => {
+    // 2.75 = half on 2.5 and half on 3.0 (push)
+    expect(settleGoalLine(2.75, 'over', '2-1', 1.8)).toEqual({ outcome: 'half_win', payoutMultiplier: 1.4 });
+    expect(settleGoalLine(2.75, 'under', '2-1', 1.8)).toEqual({ outcome: 'half_loss', payoutMultiplier: 0.5 });
+    expect(settleGoalLine(2.75, 'under', '1-1', 1.8)).toEqual({ outcome: 'win', payoutMultiplier: 1.8 });
+  });
+
+  it('returns null for an unreadable score', () => {
+    expect(settleGoalLine(2.5, 'over', 'abandoned', 1.9)).toBeNull();
+  });
+});
+
+describe('settlePointsLine', () => {
+  it('settles points lines without quarter splits', () => {
+    expect(settlePointsLine(180.5, 'over', '95-90', 1.9)).toEqual({ outcome: 'win', payoutMultiplier: 1.9 });
+    expect(settlePointsLine(180, 'under', '95-85', 1.9)).toEqual({ outcome: 'push', payoutMultiplier: 1 });
+  });
+});
+
+describe('settleTotalLine', () => {
+  it('uses the settlement rules of the sport', () => {
+    // 180.25 is not a quarter line in basketball - it is settled as a plain over/under
+    expect(settleTotalLine(18, 180.25, 'over', '95-85', 1.9)?.outcome).toBe('loss');
+    expect(settleTotalLine(1, 2.25, 'over', '1-1', 1.9)?.outcome).toBe('half_loss');
+  });
+
+  it('falls back to Asian goal lines for unknown sports', () => {
+    expect(settleTotalLine(999, 2.25, 'over', '1-1', 1.9)?.outcome).toBe('half_loss');
+  });
+});
+
+describe('hitRateOf', () => {
+  it('counts half outcomes half and leaves pushes out', () => {
+    expect(hitRateOf(['win', 'push', 'loss'])).toBe(0.5);
+    expect(hitRateOf(['half_win', 'loss'])).toBeCloseTo(1 / 3);
+  });
+
+  it('returns null when nothing was decided', () => {
+    expect(hitRateOf([])).toBeNull();
+    expect(hitRateOf(['push'])).toBeNull();
+  });
+});
+
+describe('summarizeBets', () => {
+  it('summarizes flat 1-unit bets', () => {
+    const summary = summarizeBets([
+      { ...settleGoalLine(2.5, 'over', '2-1', 2)!, odds: 2 },
+      { ...settleGoalLine(2, 'over', '1-1', 1.8)!, odds: 1.8 },
+      { ...settleGoalLine(2.25, 'over', '1-1', 2)!, odds: 2 },
+    ]);
+
+    expect(summary.bets).toBe(3);
+    expect(summary.wins).toBe(1);
+    expect(summary.hitRate).toBe(66.7);
+    expect(summary.profit).toBe(0.5);
+    expect(summary.roi).toBe(16.7);
+    expect(summary.yield).toBe(33.3);
+    expect(summary.outcomes).toEqual({ win: 1, half_win: 0, push: 1, half_loss: 1, loss: 0 });
+  });
+
+  it('returns zeros for no bets', () => {
+    expect(summarizeBets([])).toMatchObject({ bets: 0, hitRate: 0, roi: 0, yield: 0 });
+  });
+});
@@ -0,0 +1,174 @@
+import { parseScore } from './score';
+
+export type BetSide = 'over' | 'under';
+
+export type SettlementOutcome = 'win' | 'half_win' | 'push' | 'half_loss' | 'loss';
+
+export interface Settlement {
+  outcome: SettlementOutcome;
+  payoutMultiplier: number; // Total return per unit staked (stake included), e.g. 1.95 for a full win at 1.95
+}
+
+/**
+ * Parse an Asian goal line handicap string
+ * Split lines like "1.5,2.0" are returned as their quarter-line midpoint (1.75)
+ */
+export function parseGoalLine(handicap?: string | number | null): number | null {
+  if (handicap === undefined || handicap === null) return null;
+  if (typeof handicap === 'number') return isNaN(handicap) ? null : handicap;
+
+  const parts = handicap
+    .split(',')
+    .map((part) => parseFloat(part.replace('+', '').trim()))
+    .filter((value) => !isNaN(value));
+
+  if (parts.length === 0) return null;
+  return parts.reduce((sum, value) => sum + value, 0) / parts.length;
+}
+
+/**
+ * Settle a single (whole or half) line: 1 = win, 0 = push, -1 = loss
+ */
+function settleSingleLine(line: number, side: BetSide, totalGoals: number): number {
+  if (totalGoals === line) return 0;
+  const overWins = totalGoals > line;
+  return (side === 'over') === overWins ? 1 : -1;
+}
+
+/**
+ * Settle an Asian total goals bet
+ * Quarter lines (x.25 / x.75) are split into two half-stakes on the neighbouring lines,
+ * which gives half-win and half-loss results; whole lines push when the total lands on them.
+ */
+export function settleGoalLine(
+  line: number,
+  side: BetSide,
+  finalScore: string | { home: number; away: number },
+  odds: number
+): Settlement | null {
+  const score = typeof finalScore === 'string' ? parseScore(finalScore) : finalScore;
+  if (!score) return null;
+
+  const totalGoals = score.home + score.away;
+  const isQuarterLine = Math.abs((line * 4) % 2) === 1;
+  const halves = isQuarterLine ? [line - 0.25, line + 0.25] : [line, line];
+  const [first, second] = halves.map((halfLine) => settleSingleLine(halfLine, side, totalGoals));
+  const sum = first + second;
+
+  const outcomes: Record<number, SettlementOutcome> = {
+    2: 'win',
+    1: 'half_win',
+    0: 'push',
+    [-1]: 'half_loss',
+    [-2]: 'loss',
+  };
+
+  // Each half-stake returns odds on a win, the stake on a push and nothing on a loss
+  const halfReturn = (result: number) => (result === 1 ? odds : result === 0 ? 1 : 0);
+  const payoutMultiplier = (halfReturn(first) + halfReturn(second)) / 2;
+
+  return {
+    outcome: outcomes[sum],
+    payoutMultiplier: Math.round(payoutMultiplier * 10000) / 10000,
+  };
+}
+
+/**
+ * Settle a total points bet (basketball)
+ * Points lines are plain over/unders - there are no quarter lines to split, a whole line pushes
+ */
+export function settlePointsLine(
+  line: number,
+  side: BetSide,
+  finalScore: string | { home: number; away: number },
+  odds: number
+): Settlement | null {
+  const score = typeof finalScore === 'string' ? parseScore(finalScore) : finalScore;
+  if (!score) return null;
+
+  const result = settleSingleLine(line, side, score.home + score.away);
+  const outcome: SettlementOutcome = result === 1 ? 'win' : result === 0 ? 'push' : 'loss';
+
+  return {
+    outcome,
+    payoutMultiplier: result === 1 ? odds : result === 0 ? 1 : 0,
+  };
+}
+
+// Total line settlement per BetsAPI sport ID
+const TOTAL_LINE_SETTLERS: Record<number, typeof settleGoalLine> = {
+  1: settleGoalLine,     // Soccer - Asian goal lines
+  18: settlePointsLine,  // Basketball - total points
+};
+
+/**
+ * Settle a total line bet with the rules of the match's sport (soccer when unknown)
+ */
+export function settleTotalLine(
+  sportId: number,
+  line: number,
+  side: BetSide,
+  finalScore: string | { home: number; away: number },
+  odds: number
+): Settlement | null {
+  const settle = TOTAL_LINE_SETTLERS[sportId] ?? settleGoalLine;
+  return settle(line, side, finalScore, odds);
+}
+
+export interface BetSummary {
+  bets: number;        // Bets with a known price
+  wins: number;        // Win-equivalents (half-win = 0.5)
+  hitRate: number;     // Wins over decided stake (pushes excluded), percent
+  avgOdds: number;
+  profit: number;      // Units won or lost at 1 unit flat stake
+  roi: number;         // Profit over total stake, percent
+  yield: number;       // Profit over stake actually at risk (pushed stake excluded), percent
+  outcomes: Record<SettlementOutcome, number>;
+}
+
+// Share of the stake won / actually decided for each outcome (half outcomes count half)
+export const WIN_SHARE: Record<SettlementOutcome, number> = { win: 1, half_win: 0.5, push: 0, half_loss: 0, loss: 0 };
+export const DECIDED_SHARE: Record<SettlementOutcome, number> = { win: 1, half_win: 0.5, push: 0, half_loss: 0.5, loss: 1 };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Share of decided stake won across settled outcomes, null when nothing was decided
+ */
+export function hitRateOf(outcomes: SettlementOutcome[]): number | null {
+  const wins = outcomes.reduce((sum, outcome) => sum + WIN_SHARE[outcome], 0);
+  const decided = outcomes.reduce((sum, outcome) => sum + DECIDED_SHARE[outcome], 0);
+  return decided > 0 ? wins / decided : null;
+}
+
+/**
+ * Summarize flat 1-unit bets that have been settled with settleGoalLine
+ */
+export function summarizeBets(bets: Array<Settlement & { odds: number }>): BetSummary {
+  const outcomes: Record<SettlementOutcome, number> = { win: 0, half_win: 0, push: 0, half_loss: 0, loss: 0 };
+  let wins = 0;
+  let decided = 0;
+  let returns = 0;
+  let oddsSum = 0;
+
+  for (const bet of bets) {
+    outcomes[bet.outcome]++;
+    wins += WIN_SHARE[bet.outcome];
+    decided += DECIDED_SHARE[bet.outcome];
+    returns += bet.payoutMultiplier;
+    oddsSum += bet.odds;
+  }
+
+  const profit = returns - bets.length;
+
+  return {
+    bets: bets.length,
+    wins,
+    hitRate: decided > 0 ? round1((wins / decided) * 100) : 0,
+    avgOdds: bets.length > 0 ? Math.round((oddsSum / bets.length) * 100) / 100 : 0,
+    profit: Math.round(profit * 100) / 100,
+    roi: bets.length > 0 ? round1((profit / bets.length) * 100) : 0,
+    yield: decided > 0 ? round1((profit / decided) * 100) : 0,
+    outcomes,
+  };
+}
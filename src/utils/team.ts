@@ -0,0 +1,34 @@
+// Display name used when a feed gives no team names - never resolved to a team
+export const UNKNOWN_TEAM = 'Unknown';
+
+/**
+ * Tidy a team name for display: collapse whitespace and put one space before a "(handle)"
+ */
+export function formatTeamName(name?: string | null): string {
+  return (name || '')
+    .normalize('NFKC')
+    .replace(/\s*\(\s*/g, ' (')
+    .replace(/\s*\)/g, ')')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lookup key for a team name - spellings that only differ in case or spacing share a key
+ */
+export function teamNameKey(name?: string | null): string {
+  return formatTeamName(name).toLowerCase();
+}
+
+/**
+ * Split a bet365 event name like "Arsenal (Boulevard) v Chelsea (Kray)" into home and away
+ * The separator needs spaces on both sides so names like "Aston Villa" or "Al-Nassr" stay whole
+ */
+export function splitEventName(name?: string | null): { home: string; away: string } | null {
+  const parts = (name || '').split(/\s+(?:vs\.?|v|-)\s+/i);
+  if (parts.length !== 2) return null;
+
+  const home = formatTeamName(parts[0]);
+  const away = formatTeamName(parts[1]);
+  return home && away ? { home, away } : null;
+}
@@ -0,0 +1,40 @@
+/**
+ * Parse a stored timestamp - SQLite datetime('now') values have no zone and are UTC
+ */
+export function parseDbTime(value: string): Date {
+  const isSqliteFormat = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value);
+  return new Date(isSqliteFormat ? `${value.replace(' ', 'T')}Z` : value);
+}
+
+/**
+ * Check if a string is an IANA timezone name the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Build a function returning the hour (0-23) and ISO weekday (1 = Monday) of a date in a timezone
+ */
+export function zonedTimeParts(timeZone: string): (date: Date) => { hour: number; weekday: number } {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+  });
+
+  return (date: Date) => {
+    const parts = formatter.formatToParts(date);
+    const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '0', 10);
+    const weekday = WEEKDAYS.indexOf(parts.find((part) => part.type === 'weekday')?.value || '') + 1;
+    return { hour, weekday };
+  };
+}